@@ -12,6 +12,8 @@ export default {
   transform: {
     '^.+\\.ts$': ['ts-jest', {
       useESM: true,
+      // ts-jest only supports NodeNext modules file by file
+      tsconfig: { isolatedModules: true },
     }],
   },
   extensionsToTreatAsEsm: ['.ts'],
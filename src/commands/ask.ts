@@ -0,0 +1,300 @@
+import { Command } from 'commander';
+import fs from 'fs/promises';
+import path from 'path';
+import OpenAI from 'openai';
+import { configManager, ensureAuthenticated } from '../lib/config.js';
+import { createClient } from '../lib/api-client.js';
+import { EXIT_CODES, createError, toAPIError, getErrorHint, exitWithAPIError } from '../lib/errors.js';
+import { modelRegistry } from '../lib/models.js';
+import { usageLedger, formatCost } from '../lib/usage.js';
+import { promptLibrary, fillInput, parseVars } from '../lib/prompts.js';
+import { validateParams, toRequestParams } from '../lib/params.js';
+import { readPipedInput } from '../lib/input.js';
+import { estimateTokens } from '../lib/tokens.js';
+import { colors, symbol, createSpinner, renderMarkdown, MarkdownStream, printJson } from '../lib/ui.js';
+import type { Ora } from 'ora';
+import type { APIError, ChatMessage, PromptTemplate, SamplingParams } from '../types/index.js';
+
+interface AskOptions {
+  model?: string;
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  prompt?: string;
+  var: string[];
+  output?: string;
+  stream?: boolean;
+  raw?: boolean;
+}
+
+interface UsageData {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+// Helper: Collect a repeatable option into an array
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Print an error and exit with its code. Everything except the reply goes to stderr,
+// so piped output and -o files only ever contain the answer. With --json the error
+// is the JSON document on stdout instead.
+function exitWithError(error: APIError, json: boolean, hint = getErrorHint(error)): never {
+  if (json) {
+    exitWithAPIError(error, json);
+  }
+  console.error(colors.error(symbol('error')), error.message);
+  if (hint) {
+    console.error(colors.muted(hint));
+  }
+  process.exit(EXIT_CODES[error.type]);
+}
+
+// Build the user message from the question, piped input and template
+async function buildMessage(
+  question: string | undefined,
+  template: PromptTemplate | undefined,
+  vars: string[]
+): Promise<string> {
+  // Piped input (a diff, a log, a file) is added below the question as context
+  const piped = (await readPipedInput()).trim();
+  const input = [question, piped].filter(Boolean).join('\n\n');
+
+  if (template) {
+    // The input fills {{input}}, or is appended if the template has no {{input}}
+    return fillInput(template.template, input, parseVars(vars));
+  }
+  return input;
+}
+
+// Send the request, writing the reply to stdout as it streams in
+async function streamReply(
+  client: OpenAI,
+  request: OpenAI.ChatCompletionCreateParamsNonStreaming,
+  spinner: Ora,
+  formatted: boolean
+): Promise<{ reply: string; usage?: UsageData }> {
+  const stream = await client.chat.completions.create({
+    ...request,
+    stream: true,
+    stream_options: { include_usage: true },
+  });
+  spinner.stop();
+
+  let reply = '';
+  let usage: UsageData | undefined;
+  const renderer = formatted ? new MarkdownStream() : null;
+
+  for await (const chunk of stream) {
+    const content = chunk.choices[0]?.delta?.content || '';
+    if (content) {
+      if (renderer) {
+        renderer.write(content);
+      } else {
+        process.stdout.write(content);
+      }
+      reply += content;
+    }
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+  }
+
+  if (renderer) {
+    renderer.end();
+  } else if (!reply.endsWith('\n')) {
+    process.stdout.write('\n');
+  }
+  return { reply, usage };
+}
+
+// Ask command - send a single prompt and print the reply
+async function askCommand(question: string | undefined, options: AskOptions, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  await ensureAuthenticated(json);
+
+  try {
+    validateParams({ temperature: options.temperature, maxTokens: options.maxTokens });
+  } catch (error) {
+    exitWithError(createError('validation', 'invalid_parameter', `Invalid parameter: ${(error as Error).message}`), json);
+  }
+
+  let template: PromptTemplate | undefined;
+  if (options.prompt) {
+    try {
+      template = await promptLibrary.load(options.prompt);
+    } catch (error) {
+      exitWithError(
+        createError('validation', 'prompt_not_found', (error as Error).message, { prompt: options.prompt }),
+        json,
+        'Use "megacli prompts list" to see saved prompts'
+      );
+    }
+  }
+
+  let message: string;
+  try {
+    message = await buildMessage(question, template, options.var);
+  } catch (error) {
+    exitWithError(
+      createError(
+        'validation',
+        'invalid_input',
+        `${template ? 'Could not use prompt' : 'Could not read input'}: ${(error as Error).message}`
+      ),
+      json
+    );
+  }
+
+  if (!message.trim()) {
+    exitWithError(
+      createError('validation', 'missing_question', 'No question given'),
+      json,
+      'Usage: megacli ask "<question>", pipe input to it, or use --prompt <name>'
+    );
+  }
+
+  // Resolve model (the flag wins over the template's default)
+  const modelName =
+    options.model || template?.model || configManager.get('defaultModel') || 'claude-sonnet';
+  const model = modelRegistry.getModel(modelName);
+  if (!model) {
+    exitWithError(
+      createError('validation', 'model_not_found', `Model not found: ${modelName}`, { model: modelName }),
+      json,
+      'Use "megacli models list" to see available models'
+    );
+  }
+
+  const messages: ChatMessage[] = [];
+  const system = options.system ?? template?.system ?? configManager.get('systemPrompt');
+  if (system) {
+    messages.push({ role: 'system', content: system });
+  }
+  messages.push({ role: 'user', content: message });
+
+  const params: SamplingParams = {
+    temperature: options.temperature ?? template?.temperature ?? configManager.get('temperature') ?? 0.7,
+    maxTokens: options.maxTokens ?? configManager.get('maxTokens') ?? 2048,
+  };
+
+  const client = createClient();
+
+  const request = {
+    model: model.id,
+    messages: messages.map((m) => ({ role: m.role, content: m.content })),
+    ...toRequestParams(params),
+  };
+
+  // Stream to the terminal unless writing to a file or printing JSON; format Markdown only for a terminal
+  const streaming =
+    !options.output && !json && options.stream !== false && configManager.get('streaming') !== false;
+  const formatted = !options.output && !json && !options.raw && Boolean(process.stdout.isTTY);
+
+  // The spinner writes to stderr; keep it out of logs when stderr is not a terminal
+  const spinner = createSpinner('Thinking...', { silent: json || !process.stderr.isTTY }).start();
+  let reply: string;
+  let usage: UsageData | undefined;
+  try {
+    if (streaming) {
+      ({ reply, usage } = await streamReply(client, request, spinner, formatted));
+    } else {
+      const response = await client.chat.completions.create(request);
+      spinner.stop();
+      reply = response.choices[0]?.message.content || '';
+      usage = response.usage;
+    }
+  } catch (error) {
+    spinner.fail('Failed to get response');
+    exitWithError(toAPIError(error), json);
+  }
+
+  let outputPath: string | undefined;
+  if (options.output) {
+    outputPath = path.resolve(options.output);
+    try {
+      await fs.writeFile(outputPath, reply.endsWith('\n') ? reply : `${reply}\n`, 'utf-8');
+    } catch (error) {
+      exitWithError(
+        createError('validation', 'file_error', `Could not write ${outputPath} (${(error as Error).message})`),
+        json
+      );
+    }
+    if (!json) {
+      console.error(colors.success(symbol('success')), `Reply written to ${colors.primary(outputPath)}`);
+    }
+  } else if (!streaming && !json) {
+    console.log(formatted ? renderMarkdown(reply) : reply);
+  }
+
+  // Estimate tokens when the API did not report usage
+  const promptTokens = usage?.prompt_tokens ?? estimateTokens(messages.map((m) => m.content).join(''));
+  const completionTokens = usage?.completion_tokens ?? estimateTokens(reply);
+  const record = await usageLedger.record({
+    command: 'ask',
+    model: model.id,
+    promptTokens,
+    completionTokens,
+    estimated: !usage,
+  });
+
+  if (json) {
+    printJson({
+      model: model.id,
+      reply,
+      ...(outputPath && { output: outputPath }),
+      usage: { promptTokens, completionTokens, estimated: !usage, cost: record.cost },
+    });
+    return;
+  }
+
+  if (process.stderr.isTTY) {
+    const prefix = usage ? '' : '~';
+    console.error(
+      colors.muted(
+        `${prefix}${promptTokens.toLocaleString()} in · ${prefix}${completionTokens.toLocaleString()} out · ${formatCost(record.cost)}`
+      )
+    );
+  }
+}
+
+// Create and export the ask command
+export function createAskCommand(): Command {
+  const askCmd = new Command('ask');
+
+  askCmd
+    .description('Ask a one-off question (reads extra context from piped input)')
+    .argument('[question]', 'Question to ask (available as {{input}} in a prompt template)')
+    .option('-m, --model <model>', 'Model to use (ID or alias)')
+    .option('-s, --system <prompt>', 'System prompt')
+    .option('-t, --temperature <number>', 'Temperature (0-2)', parseFloat)
+    .option('--max-tokens <number>', 'Maximum tokens in response', parseInt)
+    .option('-p, --prompt <name>', 'Use a saved prompt template')
+    .option('--var <key=value>', 'Set a template variable (repeatable)', collect, [])
+    .option('-o, --output <file>', 'Write the reply to a file instead of stdout')
+    .option('--no-stream', 'Wait for the full response instead of streaming it')
+    .option('--raw', 'Print the reply as raw Markdown (the default when output is piped)')
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ megacli ask "What does HTTP 418 mean?"
+  $ git diff | megacli ask "Review this diff"
+  $ megacli ask -m gpt-5 -o notes.md "Summarize" < meeting.txt
+
+With the global --json flag, the reply and its token usage are printed as one
+JSON document, and so are errors.
+
+Exit codes:
+  0  Success
+  1  Other errors
+  2  Invalid input, e.g. an unknown model or an out-of-range parameter
+  3  Not authenticated or API key rejected
+  4  Rate limited or out of credits
+  5  Server or network error`
+    )
+    .action(askCommand);
+
+  return askCmd;
+}
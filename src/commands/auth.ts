@@ -1,39 +1,76 @@
 import { Command } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import ora from 'ora';
-import OpenAI from 'openai';
-import { configManager } from '../lib/config.js';
-import { colors, showSuccess, showError, showInfo, createBox } from '../lib/ui.js';
+import path from 'path';
+import {
+  configManager,
+  DEFAULT_PROFILE,
+  type ApiKeyOrigin,
+  type ProfileSource,
+} from '../lib/config.js';
+import { writeKeyFile } from '../lib/credentials.js';
+import { promptPassphrase } from '../lib/input.js';
+import { createClient, DEFAULT_BASE_URL, REQUEST_TIMEOUT_MS } from '../lib/api-client.js';
+import { getProxy, describeProxy, type ProxySource } from '../lib/network.js';
+import { isMockUrl } from '../lib/mock.js';
+import { fixtures } from '../lib/fixtures.js';
+import { EXIT_CODES, createError, toAPIError, getErrorHint, exitWithAPIError } from '../lib/errors.js';
+import { colors, symbol, withIcon, showSuccess, showError, showInfo, createBox, createSpinner, printJson } from '../lib/ui.js';
+import type { APIError } from '../types/index.js';
 
 // Validate API key format
 function validateApiKeyFormat(key: string): boolean {
   return key.startsWith('sk-mega-') && key.length > 15;
 }
 
-// Test API key by making a simple request
-async function testApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
+// Test API key by making a simple request (with the configured key if none is given)
+async function testApiKey(apiKey?: string): Promise<{ valid: boolean; error?: APIError }> {
   try {
-    const client = new OpenAI({
-      baseURL: configManager.get('baseUrl') || 'https://ai.megallm.io/v1',
-      apiKey: apiKey,
-    });
+    const client = createClient(apiKey);
 
     // Make a minimal test request
     await client.models.list();
 
     return { valid: true };
   } catch (error) {
-    if (error instanceof Error) {
-      return { valid: false, error: error.message };
+    return { valid: false, error: toAPIError(error) };
+  }
+}
+
+// Helper: Ask for a new passphrase twice (or take it from MEGACLI_PASSPHRASE)
+async function choosePassphrase(): Promise<string> {
+  const fromEnv = process.env['MEGACLI_PASSPHRASE'];
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  while (true) {
+    const passphrase = await promptPassphrase('Choose a passphrase for the key file:');
+    if (!passphrase) {
+      showError('The passphrase cannot be empty');
+      continue;
+    }
+    if ((await promptPassphrase('Repeat the passphrase:')) === passphrase) {
+      return passphrase;
     }
-    return { valid: false, error: 'Unknown error occurred' };
+    showError('The passphrases do not match');
   }
 }
 
+// Helper: Describe where the API key comes from
+function formatKeySource(origin: ApiKeyOrigin): string {
+  const sources: Record<ApiKeyOrigin['source'], string> = {
+    command: `credential helper (${origin.detail})`,
+    file: `encrypted key file (${origin.detail})`,
+    config: 'config file',
+    env: 'MEGALLM_API_KEY environment variable',
+  };
+  return sources[origin.source] + (origin.profile ? `, profile ${origin.profile}` : '');
+}
+
 // Login command - set up API key
-async function loginCommand(options: { key?: string }) {
-  console.log(createBox('🔐 MegaLLM Authentication Setup', 'Authentication'));
+async function loginCommand(options: { key?: string; encrypt?: boolean; keyFile?: string }) {
+  console.log(createBox(withIcon('🔐', 'MegaLLM Authentication Setup'), 'Authentication'));
 
   let apiKey: string;
 
@@ -64,26 +101,39 @@ async function loginCommand(options: { key?: string }) {
   // Validate format
   if (!validateApiKeyFormat(apiKey)) {
     showError('Invalid API key format', 'MegaLLM keys must start with "sk-mega-"');
-    console.log(colors.info('ℹ'), 'Get your API key from:', colors.primary('https://megallm.io/dashboard'));
+    console.log(colors.info(symbol('info')), 'Get your API key from:', colors.primary('https://megallm.io/dashboard'));
     process.exit(1);
   }
 
   // Test the key
-  const spinner = ora('Validating API key...').start();
+  const spinner = createSpinner('Validating API key...').start();
 
   const result = await testApiKey(apiKey);
 
-  if (result.valid) {
+  if (!result.error) {
     spinner.succeed('API key validated successfully!');
 
-    // Save the key
-    configManager.setApiKey(apiKey);
+    // Save the key, in plain text or encrypted
+    const profile = configManager.getActiveProfile();
+    let savedTo = configManager.getConfigPath();
+    if (options.encrypt || options.keyFile) {
+      const defaultFile = profile ? `apikey-${profile.name}.enc` : 'apikey.enc';
+      savedTo = path.resolve(options.keyFile ?? path.join(path.dirname(configManager.getConfigPath()), defaultFile));
+      writeKeyFile(savedTo, apiKey, await choosePassphrase());
+      configManager.setApiKeyFile(savedTo, apiKey);
+    } else {
+      configManager.setApiKey(apiKey);
+    }
 
     console.log();
     showSuccess('Authentication configured!');
     console.log();
-    console.log(colors.muted('Your API key has been saved to:'));
-    console.log(colors.primary(configManager.getConfigPath()));
+    const where = options.encrypt || options.keyFile ? 'an encrypted key file' : 'the config file';
+    console.log(colors.muted(`Your API key has been saved to ${where}${profile ? ` for profile ${profile.name}` : ''}:`));
+    console.log(colors.primary(savedTo));
+    if (process.env['MEGALLM_API_KEY']) {
+      showInfo('MEGALLM_API_KEY is set and takes precedence in this shell');
+    }
     console.log();
     console.log(colors.muted('You can now use:'));
     console.log(colors.primary('  megacli chat'), colors.muted('- Start chatting'));
@@ -92,24 +142,29 @@ async function loginCommand(options: { key?: string }) {
   } else {
     spinner.fail('API key validation failed');
     console.log();
-    showError('Authentication failed', result.error);
+    showError('Authentication failed', result.error.message);
     console.log();
     console.log(colors.muted('Please check:'));
     console.log(colors.muted('  • Your API key is correct'));
     console.log(colors.muted('  • Your subscription is active'));
     console.log(colors.muted('  • You have internet connection'));
     console.log();
-    console.log(colors.info('ℹ'), 'Get help at:', colors.primary('https://discord.gg/devsindia'));
-    process.exit(1);
+    console.log(colors.info(symbol('info')), 'Get help at:', colors.primary('https://discord.gg/devsindia'));
+    process.exit(EXIT_CODES[result.error.type]);
   }
 }
 
 // Logout command - remove API key
 async function logoutCommand() {
-  if (!configManager.hasApiKey()) {
+  const origin = configManager.getApiKeyOrigin();
+  if (!origin) {
     showInfo('You are not logged in');
     return;
   }
+  if (origin.source === 'env') {
+    showInfo('Your API key comes from the MEGALLM_API_KEY environment variable; unset it to log out');
+    return;
+  }
 
   const answers = await inquirer.prompt([
     {
@@ -123,68 +178,198 @@ async function logoutCommand() {
   if (answers.confirm) {
     configManager.removeApiKey();
     showSuccess('Logged out successfully');
-    console.log(colors.muted('Your API key has been removed'));
+    console.log(
+      colors.muted(
+        origin.source === 'command'
+          ? 'MegaCLI no longer uses your credential helper; the key itself is still in its store'
+          : 'Your API key has been removed'
+      )
+    );
   } else {
     console.log(colors.muted('Logout cancelled'));
   }
 }
 
-// Status command - check authentication status
-async function statusCommand() {
-  console.log(createBox('🔐 Authentication Status', 'Status'));
+// Helper: The network settings requests to the API use, as reported by "auth test"
+function getNetworkReport(baseUrl: string) {
+  const proxy = getProxy(baseUrl);
+  const secure = baseUrl.startsWith('https:');
+  return {
+    provider: isMockUrl(baseUrl) ? 'mock' : 'megallm',
+    fixtures: fixtures.currentMode ? { mode: fixtures.currentMode, dir: fixtures.directory! } : null,
+    proxy: proxy ? describeProxy(proxy.url) : null,
+    proxySource: proxy?.source ?? null,
+    proxyVariable: proxy?.detail ?? null,
+    tls: secure,
+    caFile: secure ? configManager.get('caFile') ?? null : null,
+    timeoutMs: configManager.get('timeoutMs') ?? REQUEST_TIMEOUT_MS,
+    headers: Object.keys(configManager.get('headers') ?? {}),
+  };
+}
+
+// Helper: Print the network settings the test used
+function showNetworkReport(network: ReturnType<typeof getNetworkReport>): void {
+  const sources: Record<ProxySource, string> = {
+    flag: '--proxy',
+    env: network.proxyVariable ?? 'environment',
+    config: 'proxy setting',
+  };
+  const proxy = network.proxy ? `${network.proxy} (from ${sources[network.proxySource!]})` : 'none (direct connection)';
+  const tls = !network.tls ? 'not used (http)' : network.caFile ? `system CAs + ${network.caFile}` : 'system CAs';
 
-  if (!configManager.hasApiKey()) {
-    showError('Not authenticated');
+  console.log();
+  if (network.provider === 'mock') {
+    console.log(colors.muted('Provider:'), 'mock (answered locally)');
+  } else {
+    console.log(colors.muted('Proxy:'), proxy);
+    console.log(colors.muted('TLS:'), tls);
+    console.log(colors.muted('Timeout:'), `${network.timeoutMs / 1000}s`);
+    if (network.headers.length > 0) {
+      console.log(colors.muted('Extra headers:'), network.headers.join(', '));
+    }
+  }
+  if (network.fixtures) {
+    console.log(colors.muted(network.fixtures.mode === 'replay' ? 'Replaying from:' : 'Recording to:'), network.fixtures.dir);
+  }
+}
+
+// Helper: Describe the active profile and where it was chosen
+function formatProfile(profile: { name: string; source: ProfileSource } | undefined): string {
+  const sources: Record<ProfileSource, string> = {
+    flag: '--profile',
+    env: 'MEGACLI_PROFILE',
+    config: 'megacli profile use',
+  };
+  return profile ? `${profile.name} (from ${sources[profile.source]})` : `${DEFAULT_PROFILE} (main config)`;
+}
+
+// Status command - check authentication status. Exits with the authentication
+// exit code when no API key is configured.
+async function statusCommand(_options: object, command: Command) {
+  await configManager.unlockApiKey();
+  const authenticated = configManager.hasApiKey();
+  const keyOrigin = configManager.getApiKeyOrigin();
+  const keyError = configManager.getApiKeyError();
+  const profile = configManager.getActiveProfile();
+  const project = configManager.getProjectConfig();
+  const config = configManager.getAll();
+  const settings = {
+    baseUrl: config.baseUrl || DEFAULT_BASE_URL,
+    defaultModel: config.defaultModel || 'claude-sonnet',
+    temperature: config.temperature ?? 0.7,
+    streaming: config.streaming ?? true,
+  };
+
+  if (command.optsWithGlobals()['json']) {
+    printJson({
+      authenticated,
+      profile: profile?.name ?? DEFAULT_PROFILE,
+      profileSource: profile?.source ?? null,
+      apiKey: authenticated ? configManager.getMaskedApiKey() : null,
+      apiKeySource: keyOrigin ?? null,
+      ...(keyError && { apiKeyError: keyError }),
+      configPath: configManager.getConfigPath(),
+      projectConfigPath: project?.path ?? null,
+      settings,
+    });
+    if (!authenticated) {
+      process.exit(EXIT_CODES.authentication);
+    }
+    return;
+  }
+
+  console.log(createBox(withIcon('🔐', 'Authentication Status'), 'Status'));
+
+  if (!authenticated) {
+    showError('Not authenticated', keyError);
+    if (keyOrigin && keyOrigin.source !== 'config' && keyOrigin.source !== 'env') {
+      console.log(colors.muted('Key source:'), formatKeySource(keyOrigin));
+    }
     console.log();
     console.log(colors.muted('Run'), colors.primary('megacli auth login'), colors.muted('to set up your API key'));
-    console.log(colors.info('ℹ'), 'Get your API key from:', colors.primary('https://megallm.io/dashboard'));
-    return;
+    console.log(colors.info(symbol('info')), 'Get your API key from:', colors.primary('https://megallm.io/dashboard'));
+    process.exit(EXIT_CODES.authentication);
   }
 
-  console.log(colors.success('✓'), colors.muted('Authenticated'));
+  console.log(colors.success(symbol('success')), colors.muted('Authenticated'));
   console.log();
+  console.log(colors.muted('Profile:'), colors.primary(formatProfile(profile)));
   console.log(colors.muted('API Key:'), colors.primary(configManager.getMaskedApiKey()));
+  console.log(colors.muted('Key source:'), colors.primary(formatKeySource(keyOrigin!)));
   console.log(colors.muted('Config:'), colors.primary(configManager.getConfigPath()));
+  if (project) {
+    console.log(colors.muted('Project config:'), colors.primary(project.path));
+  }
   console.log();
 
   // Show current settings
-  const config = configManager.getAll();
   console.log(chalk.bold('Current Settings:'));
-  console.log(colors.muted('  Base URL:'), config.baseUrl || 'default');
-  console.log(colors.muted('  Default Model:'), config.defaultModel || 'claude-sonnet');
-  console.log(colors.muted('  Temperature:'), config.temperature ?? 0.7);
-  console.log(colors.muted('  Streaming:'), config.streaming ? 'enabled' : 'disabled');
+  console.log(colors.muted('  Base URL:'), settings.baseUrl);
+  console.log(colors.muted('  Default Model:'), settings.defaultModel);
+  console.log(colors.muted('  Temperature:'), settings.temperature);
+  console.log(colors.muted('  Streaming:'), settings.streaming ? 'enabled' : 'disabled');
 }
 
-// Test command - verify API key works
-async function testCommand() {
-  if (!configManager.hasApiKey()) {
-    showError('Not authenticated');
-    console.log(colors.muted('Run'), colors.primary('megacli auth login'), colors.muted('to set up your API key'));
-    return;
+// Test command - verify API key works. Offline (the mock provider or --replay)
+// no key is needed, so only the connection is tested.
+async function testCommand(_options: object, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const offline = configManager.isOffline();
+
+  if (!offline) {
+    await configManager.unlockApiKey();
+  }
+  if (!offline && !configManager.hasApiKey()) {
+    const keyError = configManager.getApiKeyError();
+    exitWithAPIError(
+      keyError
+        ? createError('authentication', 'api_key_unavailable', keyError)
+        : createError('authentication', 'not_authenticated', 'Not authenticated'),
+      json,
+      'Run "megacli auth login" to set up your API key'
+    );
   }
 
-  const spinner = ora('Testing API connection...').start();
+  const spinner = json ? null : createSpinner('Testing API connection...').start();
 
-  const apiKey = configManager.getApiKey()!;
-  const result = await testApiKey(apiKey);
+  const baseUrl = configManager.get('baseUrl') || DEFAULT_BASE_URL;
+  const network = getNetworkReport(baseUrl);
+  const started = Date.now();
+  const result = await testApiKey();
+  const latencyMs = Date.now() - started;
 
-  if (result.valid) {
-    spinner.succeed('API connection successful!');
+  if (json) {
+    if (result.error) {
+      exitWithAPIError({ ...result.error, details: { ...result.error.details, network } }, true);
+    }
+    printJson({ ok: true, baseUrl, latencyMs, network });
+    return;
+  }
+
+  if (!result.error) {
+    spinner?.succeed('API connection successful!');
     console.log();
-    showSuccess('Your API key is working correctly');
-    console.log(colors.muted('You can now use all MegaCLI commands'));
+    if (offline) {
+      showInfo('Nothing was sent to MegaLLM, so your API key was not checked');
+    } else {
+      showSuccess('Your API key is working correctly');
+      console.log(colors.muted('You can now use all MegaCLI commands'));
+    }
+    showNetworkReport(network);
   } else {
-    spinner.fail('API connection failed');
-    console.log();
-    showError('Connection test failed', result.error);
+    spinner?.fail('API connection failed');
     console.log();
-    console.log(colors.muted('Possible issues:'));
-    console.log(colors.muted('  • API key expired or revoked'));
-    console.log(colors.muted('  • Subscription inactive'));
-    console.log(colors.muted('  • Network connectivity issues'));
-    console.log();
-    console.log(colors.muted('Try running:'), colors.primary('megacli auth logout'), colors.muted('then'), colors.primary('megacli auth login'));
+    showError('Connection test failed', result.error.message);
+    const hint = getErrorHint(result.error);
+    if (hint) {
+      console.log(colors.muted(hint));
+    }
+    if (result.error.type === 'authentication') {
+      console.log();
+      console.log(colors.muted('Try running:'), colors.primary('megacli auth logout'), colors.muted('then'), colors.primary('megacli auth login'));
+    }
+    showNetworkReport(network);
+    process.exit(EXIT_CODES[result.error.type]);
   }
 }
 
@@ -198,6 +383,15 @@ export function createAuthCommand(): Command {
       new Command('login')
         .description('Save your MegaLLM API key')
         .option('-k, --key <key>', 'Provide API key directly (non-interactive)')
+        .option('--encrypt', 'Save the key in a passphrase-encrypted file instead of the config file')
+        .option('--key-file <path>', 'Where to save the encrypted key (implies --encrypt)')
+        .addHelpText(
+          'after',
+          `
+The passphrase is asked for when the key is needed, or read from MEGACLI_PASSPHRASE.
+To get the key from a password manager instead, set a credential helper:
+  $ megacli config set apiKeyCommand "pass show megallm"`
+        )
         .action(loginCommand)
     )
     .addCommand(
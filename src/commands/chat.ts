@@ -1,19 +1,116 @@
 import { Command } from 'commander';
-import inquirer from 'inquirer';
+import fs from 'fs/promises';
+import path from 'path';
 import chalk from 'chalk';
-import ora from 'ora';
-import OpenAI from 'openai';
+import inquirer from 'inquirer';
+import type { Ora } from 'ora';
+import OpenAI, { APIUserAbortError } from 'openai';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import { configManager, ensureAuthenticated } from '../lib/config.js';
-import { modelRegistry, getModelDisplayName } from '../lib/models.js';
-import { colors, showSuccess, showError, createBox, showDivider } from '../lib/ui.js';
-import type { ChatMessage } from '../types/index.js';
+import { createClient } from '../lib/api-client.js';
+import { toAPIError, showAPIError } from '../lib/errors.js';
+import { modelRegistry, getModelDisplayName, calculateCost } from '../lib/models.js';
+import { usageLedger, formatCost } from '../lib/usage.js';
+import { historyManager, deriveSessionTitle } from '../lib/history.js';
+import { ConversationTree } from '../lib/conversation.js';
+import { promptLibrary, extractVariables, renderTemplate, parseVars } from '../lib/prompts.js';
+import { personaStore } from '../lib/personas.js';
+import {
+  PARAM_NAMES,
+  PARAM_SPECS,
+  resolveParamName,
+  validateParams,
+  toRequestParams,
+  formatParamValue,
+} from '../lib/params.js';
+import { exportSession, formatFromPath } from '../lib/export.js';
+import { CommandRegistry } from '../lib/slash-commands.js';
+import { promptMessage, composeInEditor } from '../lib/input.js';
+import { FileSystemManager } from '../lib/filesystem.js';
+import {
+  extractMentions,
+  loadAttachments,
+  loadFiles,
+  appendAttachments,
+  type Attachment,
+} from '../lib/attachments.js';
+import {
+  estimateTokens,
+  estimateMessageTokens,
+  fitToContext,
+  getContextBudget,
+} from '../lib/tokens.js';
+import {
+  colors,
+  symbol,
+  withIcon,
+  createSpinner,
+  showSuccess,
+  showError,
+  showWarning,
+  showInfo,
+  createBox,
+  showDivider,
+  renderMarkdown,
+  MarkdownStream,
+  createMeter,
+} from '../lib/ui.js';
+import type {
+  ChatMessage,
+  ChatSessionRecord,
+  Persona,
+  SamplingOptions,
+  SamplingParams,
+  TokenUsage,
+} from '../types/index.js';
 
 interface ChatOptions {
   model?: string;
   system?: string;
+  systemFile?: string;
+  persona?: string;
   temperature?: number;
   maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stop?: string[];
+  seed?: number;
+  stream?: boolean;
+  raw?: boolean;
+  resume?: string | boolean;
+}
+
+type SessionOptions = Required<
+  Pick<ChatOptions, 'model' | 'system' | 'temperature' | 'maxTokens' | 'stream' | 'raw'>
+> & {
+  persona?: string;
+  sampling?: SamplingOptions;
+};
+
+// Settings that can be changed for a single reply
+interface ReplyOverrides {
+  model?: string;
+  temperature?: number;
+}
+
+// Ask before sending attachments larger than this
+const LARGE_ATTACHMENT_TOKENS = 20000;
+
+interface UsageData {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// Helper: Collect a repeatable option into an array
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+// Split command arguments on spaces, keeping "quoted values" together
+function splitArgs(args: string): string[] {
+  return (args.match(/(?:[^\s"]+|"[^"]*")+/g) || []).map((arg) => arg.replace(/"/g, ''));
 }
 
 // Convert our ChatMessage to OpenAI format
@@ -27,98 +124,253 @@ function toOpenAIMessages(messages: ChatMessage[]): ChatCompletionMessageParam[]
 // Chat session class
 class ChatSession {
   private client: OpenAI;
-  private messages: ChatMessage[] = [];
+  // Every branch of the conversation; this.messages is the active one
+  private tree = new ConversationTree();
   private currentModel: string;
-  private temperature: number;
-  private maxTokens: number;
-  private tokenUsage = { prompt: 0, completion: 0, total: 0 };
+  // Sampling parameters for the next request (changed with /set)
+  private params: SamplingParams;
+  // Parameters the session started with, restored by /reset-params
+  private startParams: SamplingParams;
+  private streaming: boolean;
+  private raw: boolean;
+  private tokenUsage: TokenUsage = { prompt: 0, completion: 0, total: 0 };
+  private sessionId: string;
+  private sessionTitle = '';
+  // Name of the active persona, if any
+  private persona: string | undefined;
+  private createdAt = new Date().toISOString();
+  // Controller for the in-flight request, if any (used to cancel with Ctrl+C)
+  private abortController: AbortController | null = null;
+  // Files are read through the sandboxed file system (no access outside cwd)
+  private fs = new FileSystemManager(process.cwd());
+  private pendingAttachments: Attachment[] = [];
+  private commands = new CommandRegistry();
 
-  constructor(options: Required<ChatOptions>) {
-    ensureAuthenticated();
-
-    this.client = new OpenAI({
-      baseURL: configManager.get('baseUrl') || 'https://ai.megallm.io/v1',
-      apiKey: configManager.getApiKey()!,
-    });
+  constructor(options: SessionOptions) {
+    this.client = createClient();
 
     this.currentModel = options.model;
-    this.temperature = options.temperature;
-    this.maxTokens = options.maxTokens;
+    this.params = {
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      ...options.sampling,
+    };
+    this.startParams = { ...this.params };
+    this.streaming = options.stream;
+    this.raw = options.raw;
+    this.persona = options.persona;
+    this.sessionId = historyManager.createId();
 
     // Add system message if provided
     if (options.system) {
-      this.messages.push({
+      this.tree.append({
         role: 'system',
         content: options.system,
+        timestamp: new Date().toISOString(),
       });
     }
+
+    this.registerCommands();
+  }
+
+  // Messages on the active branch
+  private get messages(): ChatMessage[] {
+    return this.tree.getMessages();
   }
 
   // Show welcome message
   showWelcome() {
     console.log(
       createBox(
-        `🤖 ${chalk.bold('Interactive Chat Mode')}\n\n` +
-        `Model: ${chalk.cyan(getModelDisplayName(this.currentModel))}\n` +
-        `Temperature: ${chalk.yellow(this.temperature.toString())} | ` +
-        `Max Tokens: ${chalk.yellow(this.maxTokens.toString())}`,
+        `${withIcon('🤖', chalk.bold('Interactive Chat Mode'))}\n\n` +
+        `Model: ${colors.primary(getModelDisplayName(this.currentModel))}\n` +
+        (this.persona ? `Persona: ${colors.primary(this.persona)}\n` : '') +
+        `Temperature: ${colors.warning(this.params.temperature.toString())} | ` +
+        `Max Tokens: ${colors.warning(this.params.maxTokens.toString())} | ` +
+        `Streaming: ${colors.warning(this.streaming ? 'on' : 'off')}`,
         'MegaCLI Chat'
       )
     );
-    console.log(colors.muted('Special commands:'));
-    console.log(colors.primary('  /exit'), colors.muted('- Exit chat'));
-    console.log(colors.primary('  /clear'), colors.muted('- Clear conversation history'));
-    console.log(colors.primary('  /models'), colors.muted('- List available models'));
-    console.log(colors.primary('  /switch <model>'), colors.muted('- Change model'));
-    console.log(colors.primary('  /help'), colors.muted('- Show commands'));
-    console.log(colors.primary('  /info'), colors.muted('- Show current settings'));
-    console.log();
-  }
-
-  // Handle special commands
-  async handleCommand(input: string): Promise<boolean> {
-    const trimmed = input.trim();
-
-    if (trimmed === '/exit' || trimmed === '/quit') {
-      this.showGoodbye();
-      return true;
-    }
-
-    if (trimmed === '/clear') {
-      const systemMessages = this.messages.filter((m) => m.role === 'system');
-      this.messages = systemMessages;
-      showSuccess('Conversation history cleared');
-      return false;
-    }
 
-    if (trimmed === '/models') {
-      this.listModels();
-      return false;
-    }
-
-    if (trimmed.startsWith('/switch ')) {
-      const modelId = trimmed.substring(8).trim();
-      this.switchModel(modelId);
-      return false;
-    }
-
-    if (trimmed === '/help') {
-      this.showHelp();
-      return false;
+    const messageCount = this.messages.filter((m) => m.role !== 'system').length;
+    if (messageCount > 0) {
+      showInfo(`Resumed session ${colors.primary(this.sessionId)}: ${this.sessionTitle} (${messageCount} messages)`);
+      console.log();
     }
 
-    if (trimmed === '/info') {
-      this.showInfo();
-      return false;
-    }
+    console.log(colors.muted('Special commands:'));
+    this.commands.showHelp(true);
+    console.log(colors.muted('End a line with \\ to continue it, or type """ to paste a multiline block.'));
+    console.log(colors.muted('Mention @path/to/file in a message to include that file.'));
+    console.log(colors.muted('Press Ctrl+C while a reply is generating to cancel it.'));
+    console.log();
+  }
 
-    // Unknown command
-    if (trimmed.startsWith('/')) {
-      showError(`Unknown command: ${trimmed}`, 'Type /help for available commands');
-      return false;
-    }
+  // Register the built-in slash commands, then the user's macros from config
+  private registerCommands() {
+    this.commands
+      .register({
+        name: 'exit',
+        aliases: ['quit'],
+        description: 'Exit chat',
+        featured: true,
+        handler: () => {
+          this.showGoodbye();
+          return true;
+        },
+      })
+      .register({
+        name: 'clear',
+        description: 'Clear conversation history',
+        featured: true,
+        handler: () => {
+          const systemMessages = this.messages.filter((m) => m.role === 'system');
+          this.tree = ConversationTree.fromMessages(systemMessages);
+          this.startNewSession();
+          showSuccess('Conversation history cleared');
+        },
+      })
+      .register({
+        name: 'models',
+        description: 'List available models',
+        featured: true,
+        handler: () => this.listModels(),
+      })
+      .register({
+        name: 'switch',
+        args: '<model>',
+        description: 'Change to a different model',
+        featured: true,
+        handler: (args) => this.switchModel(args),
+      })
+      .register({
+        name: 'persona',
+        args: '[name]',
+        description: 'Switch to a saved persona',
+        featured: true,
+        handler: (args) => this.switchPersona(args),
+      })
+      .register({
+        name: 'personas',
+        description: 'List saved personas',
+        handler: () => this.listPersonas(),
+      })
+      .register({
+        name: 'set',
+        args: '[param] [value]',
+        description: 'Set a sampling parameter ("off" unsets); no args shows all',
+        featured: true,
+        handler: (args) => this.setParam(args),
+      })
+      .register({
+        name: 'reset-params',
+        description: 'Restore the parameters the session started with',
+        handler: () => {
+          this.params = { ...this.startParams };
+          showSuccess('Parameters reset to their starting values');
+          this.showParams();
+        },
+      })
+      .register({
+        name: 'retry',
+        args: '[model]',
+        description: 'Regenerate the last reply, optionally with another model',
+        featured: true,
+        handler: (args) => this.retryReply(args),
+      })
+      .register({
+        name: 'edit',
+        args: '[text]',
+        description: 'Change your last message and regenerate',
+        featured: true,
+        handler: (args) => this.editLastMessage(args),
+      })
+      .register({
+        name: 'undo',
+        description: 'Drop the last exchange',
+        featured: true,
+        handler: () => this.undoExchange(),
+      })
+      .register({
+        name: 'branches',
+        description: 'List alternative continuations',
+        featured: true,
+        handler: () => this.showBranches(),
+      })
+      .register({
+        name: 'checkout',
+        args: '<n>',
+        description: 'Switch to another branch',
+        handler: (args) => this.checkoutBranch(args),
+      })
+      .register({
+        name: 'save',
+        args: '[title]',
+        description: 'Save conversation to history',
+        featured: true,
+        handler: (args) => this.saveSession(args),
+      })
+      .register({
+        name: 'load',
+        args: '<id>',
+        description: 'Load a saved conversation (see megacli history list)',
+        featured: true,
+        handler: (args) => this.loadSession(args),
+      })
+      .register({
+        name: 'export',
+        args: '<file>',
+        description: 'Export conversation (.md, .json or .html)',
+        featured: true,
+        handler: (args) => this.exportConversation(args),
+      })
+      .register({
+        name: 'compose',
+        description: 'Compose a message in $EDITOR and send it',
+        featured: true,
+        handler: () => this.composeMessage(),
+      })
+      .register({
+        name: 'prompt',
+        args: '[name] [k=v]',
+        description: 'Send a saved prompt template (no name lists them)',
+        featured: true,
+        handler: (args) => this.usePrompt(args),
+      })
+      .register({
+        name: 'attach',
+        args: '[glob]',
+        description: 'Attach files to your next message (no glob lists them)',
+        featured: true,
+        handler: (args) => this.attachFiles(args),
+      })
+      .register({
+        name: 'detach',
+        description: 'Remove pending attachments',
+        handler: () => {
+          this.pendingAttachments = [];
+          showSuccess('Pending attachments removed');
+        },
+      })
+      .register({
+        name: 'info',
+        description: 'Show current settings and stats',
+        featured: true,
+        handler: () => this.showInfo(),
+      })
+      .register({
+        name: 'help',
+        aliases: ['?'],
+        description: 'Show all commands',
+        featured: true,
+        handler: () => this.showHelp(),
+      })
+      .addMacros((prompt, macro) => this.sendMessage(prompt, { model: macro.model }));
+  }
 
-    return false;
+  // Handle special commands. Returns true when the chat should end.
+  async handleCommand(input: string): Promise<boolean> {
+    return this.commands.dispatch(input);
   }
 
   // List available models
@@ -137,7 +389,7 @@ class ChatSession {
         console.log(chalk.bold(`\n${category.toUpperCase()}:`));
         models.forEach((model) => {
           const isCurrent = model.id === this.currentModel;
-          const marker = isCurrent ? colors.success('→') : ' ';
+          const marker = isCurrent ? colors.success(symbol('current')) : ' ';
           console.log(`${marker} ${colors.primary(model.id)} - ${model.name} (${model.provider})`);
         });
       }
@@ -158,26 +410,574 @@ class ChatSession {
     showSuccess(`Switched to ${getModelDisplayName(model.id)}`);
   }
 
+  // Replace the system prompt for the whole conversation
+  setSystemPrompt(content: string, persona?: string) {
+    this.tree.setSystemPrompt({
+      role: 'system',
+      content,
+      timestamp: new Date().toISOString(),
+    });
+    this.persona = persona;
+  }
+
+  // Switch to a saved persona: its system prompt, plus its model and temperature if set
+  async switchPersona(name: string) {
+    if (!name) {
+      if (this.persona) {
+        console.log(colors.muted('Current persona:'), colors.primary(this.persona));
+      }
+      await this.listPersonas();
+      return;
+    }
+
+    try {
+      const persona = await personaStore.load(name);
+      this.setSystemPrompt(persona.system, persona.name);
+      if (persona.model) {
+        this.currentModel = persona.model;
+      }
+      // Older persona files can hold null for a temperature that was not a number
+      if (typeof persona.temperature === 'number') {
+        this.params.temperature = persona.temperature;
+      }
+
+      showSuccess(`Switched to persona ${colors.primary(persona.name)}`);
+      console.log(
+        colors.muted('Model:'),
+        colors.primary(getModelDisplayName(this.currentModel)),
+        colors.muted('| Temperature:'),
+        this.params.temperature
+      );
+
+      if (this.messages.some((m) => m.role !== 'system')) {
+        await this.autoSave();
+      }
+    } catch (error) {
+      showError('Could not switch persona', (error as Error).message);
+    }
+  }
+
+  // List saved personas
+  async listPersonas() {
+    const personas = await personaStore.list();
+    if (personas.length === 0) {
+      showInfo('No personas yet');
+      console.log(colors.muted('Add one with'), colors.primary('megacli persona add <name> --file prompt.md'));
+      return;
+    }
+
+    console.log(colors.primary(withIcon('🎭', 'Personas:')));
+    personas.forEach((persona) => {
+      const marker = persona.name === this.persona ? colors.success(symbol('current')) : ' ';
+      const description = persona.description ? ` ${colors.muted(`- ${persona.description}`)}` : '';
+      console.log(`${marker} ${persona.name}${description}`);
+    });
+    console.log(colors.muted('Use /persona <name> to switch'));
+  }
+
+  // Change a sampling parameter for the rest of the session
+  setParam(args: string) {
+    const [name, ...values] = splitArgs(args);
+    if (!name) {
+      this.showParams();
+      console.log(colors.muted('Use /set <param> <value> to change one, or /reset-params to undo changes'));
+      return;
+    }
+
+    const param = resolveParamName(name);
+    if (!param) {
+      showError(`Unknown parameter: ${name}`, `Parameters: ${PARAM_NAMES.join(', ')}`);
+      return;
+    }
+
+    const spec = PARAM_SPECS[param];
+    const canUnset = !spec.required;
+    if (values.length === 0) {
+      showError(
+        `Usage: /set ${param} <value>`,
+        canUnset ? `Use "/set ${param} off" to go back to the API default` : undefined
+      );
+      return;
+    }
+
+    if (canUnset && values.length === 1 && values[0]?.toLowerCase() === 'off') {
+      const params = { ...this.params };
+      delete params[spec.key];
+      this.params = params;
+      showSuccess(`${spec.label} unset (API default)`);
+      return;
+    }
+
+    try {
+      const value = spec.parse(values);
+      this.params = { ...this.params, [spec.key]: value };
+      showSuccess(`${spec.label} set to ${formatParamValue(value)}`);
+    } catch (error) {
+      showError(`Invalid ${spec.label.toLowerCase()}`, (error as Error).message);
+    }
+  }
+
+  // Show every sampling parameter with its current value
+  showParams() {
+    for (const [name, spec] of Object.entries(PARAM_SPECS)) {
+      const value = formatParamValue(this.params[spec.key]);
+      const changed = value !== formatParamValue(this.startParams[spec.key]) ? colors.warning(' (changed)') : '';
+      console.log(colors.muted(`${spec.label} (${name}):`), value + changed);
+    }
+  }
+
+  // Save the session to history, optionally giving it a title
+  async saveSession(title?: string) {
+    if (title) {
+      this.sessionTitle = title;
+    }
+
+    try {
+      await historyManager.save(this.toRecord());
+      showSuccess(`Session saved as ${colors.primary(this.sessionId)}`);
+    } catch (error) {
+      showError('Failed to save session', (error as Error).message);
+    }
+  }
+
+  // Replace the current conversation with a saved session
+  async loadSession(id: string) {
+    try {
+      const record = await historyManager.load(id);
+      this.loadRecord(record);
+      const messageCount = this.messages.filter((m) => m.role !== 'system').length;
+      showSuccess(`Loaded session ${colors.primary(record.id)}: ${record.title} (${messageCount} messages)`);
+      console.log(colors.muted('Model:'), colors.primary(getModelDisplayName(this.currentModel)));
+    } catch (error) {
+      showError('Failed to load session', (error as Error).message);
+    }
+  }
+
+  // Stage files matching a glob to be sent with the next message
+  async attachFiles(pattern: string) {
+    if (!pattern) {
+      if (this.pendingAttachments.length === 0) {
+        showError('Usage: /attach <glob>', 'Example: /attach src/**/*.ts');
+      } else {
+        this.showAttachments(this.pendingAttachments);
+      }
+      return;
+    }
+
+    try {
+      const { attachments, errors } = await loadAttachments(this.fs, pattern);
+      errors.forEach((error) => showWarning(error));
+
+      for (const attachment of attachments) {
+        this.pendingAttachments = this.pendingAttachments.filter((a) => a.path !== attachment.path);
+        this.pendingAttachments.push(attachment);
+      }
+
+      if (attachments.length > 0) {
+        this.showAttachments(this.pendingAttachments);
+        console.log(colors.muted('Attachments will be sent with your next message (/detach to remove)'));
+      }
+    } catch (error) {
+      showError('Failed to attach files', (error as Error).message);
+    }
+  }
+
+  // Show attachments with their estimated token cost
+  showAttachments(attachments: Attachment[]) {
+    const total = attachments.reduce((sum, a) => sum + a.tokens, 0);
+    console.log(colors.primary(withIcon('📎', 'Attachments:')));
+    attachments.forEach((attachment) => {
+      console.log(`  ${attachment.path}`, colors.muted(`~${attachment.tokens.toLocaleString()} tokens`));
+    });
+    console.log(colors.muted(`  Total: ~${total.toLocaleString()} tokens`));
+  }
+
+  // Gather staged attachments plus @path mentions. Returns null if the user backs out.
+  private async collectAttachments(message: string): Promise<Attachment[] | null> {
+    const attachments = [...this.pendingAttachments];
+
+    const mentioned: string[] = [];
+    for (const mention of extractMentions(message)) {
+      if (attachments.some((a) => a.path === mention)) continue;
+      if (await this.fs.exists(mention)) mentioned.push(mention);
+    }
+
+    if (mentioned.length > 0) {
+      const { attachments: loaded, errors } = await loadFiles(this.fs, mentioned);
+      errors.forEach((error) => showWarning(error));
+      attachments.push(...loaded);
+    }
+
+    if (attachments.length === 0) {
+      return [];
+    }
+
+    this.showAttachments(attachments);
+
+    const total = attachments.reduce((sum, a) => sum + a.tokens, 0);
+    if (total > LARGE_ATTACHMENT_TOKENS) {
+      const { confirm } = await inquirer.prompt<{ confirm: boolean }>({
+        type: 'confirm',
+        name: 'confirm',
+        message: `Send ~${total.toLocaleString()} tokens of attachments?`,
+        default: false,
+      });
+      if (!confirm) {
+        console.log(colors.muted('Message not sent'));
+        return null;
+      }
+    }
+
+    this.pendingAttachments = [];
+    return attachments;
+  }
+
+  // Compose a message in the user's editor and send it
+  async composeMessage() {
+    try {
+      const message = await composeInEditor();
+      if (!message) {
+        showInfo('Empty message, nothing sent');
+        return;
+      }
+
+      const lineCount = message.split('\n').length;
+      console.log(colors.muted(`Sending message from editor (${lineCount} line${lineCount === 1 ? '' : 's'})`));
+      await this.sendMessage(message);
+    } catch (error) {
+      showError('Could not open editor', (error as Error).message);
+    }
+  }
+
+  // Regenerate the last reply, optionally with another model. The old reply stays as a branch.
+  async retryReply(modelName: string) {
+    let modelId = this.currentModel;
+    if (modelName) {
+      const model = modelRegistry.getModel(modelName);
+      if (!model) {
+        showError(`Model not found: ${modelName}`, 'Use /models to see available models');
+        return;
+      }
+      modelId = model.id;
+    }
+
+    const head = this.tree.getHead();
+    if (!head || head.message.role === 'system') {
+      showError('Nothing to retry', 'Send a message first');
+      return;
+    }
+
+    // Step back to the user message the reply answered (it may have failed and have no reply)
+    if (head.message.role === 'assistant') {
+      this.tree.setHead(head.parent);
+    }
+
+    if (modelId !== this.currentModel) {
+      console.log(colors.muted(`Retrying with ${getModelDisplayName(modelId)}`));
+    }
+    if (!(await this.generateReply(modelId))) {
+      this.tree.setHead(head.id);
+    }
+  }
+
+  // Replace the last user message and regenerate. The original exchange stays as a branch.
+  async editLastMessage(text: string) {
+    const target = this.tree.findLast('user');
+    if (!target) {
+      // Nothing to edit yet - compose a new message instead
+      await this.composeMessage();
+      return;
+    }
+
+    // Edit only what was typed; attached files are re-read when the message is resent
+    const attachments = target.message.attachments ?? [];
+    const marker = attachments.length > 0 ? target.message.content.indexOf(`\n\nFile: ${attachments[0]}\n`) : -1;
+    const original = marker === -1 ? target.message.content : target.message.content.substring(0, marker);
+
+    let message = text;
+    if (!message) {
+      try {
+        message = await composeInEditor(original);
+      } catch (error) {
+        showError('Could not open editor', (error as Error).message);
+        return;
+      }
+    }
+
+    if (!message) {
+      showInfo('Empty message, nothing changed');
+      return;
+    }
+    if (message === original && attachments.length === 0) {
+      showInfo('Message unchanged - use /retry to regenerate the reply');
+      return;
+    }
+
+    if (attachments.length > 0) {
+      const { attachments: loaded, errors } = await loadFiles(this.fs, attachments);
+      errors.forEach((error) => showWarning(error));
+      this.pendingAttachments = [
+        ...this.pendingAttachments.filter((a) => !attachments.includes(a.path)),
+        ...loaded,
+      ];
+    }
+
+    const head = this.tree.getHead();
+    this.tree.setHead(target.parent);
+    if (!(await this.sendMessage(message))) {
+      this.tree.setHead(head?.id ?? null);
+    }
+  }
+
+  // Step back before the last user message. The dropped exchange stays as a branch.
+  async undoExchange() {
+    const target = this.tree.findLast('user');
+    if (!target) {
+      showError('Nothing to undo', 'The conversation has no messages yet');
+      return;
+    }
+
+    this.tree.setHead(target.parent);
+    showSuccess('Removed the last exchange');
+    console.log(colors.muted('It is kept as a branch - use /branches to get it back'));
+    await this.autoSave();
+  }
+
+  // List every branch of the conversation
+  showBranches() {
+    const leaves = this.tree.getLeaves();
+    const head = this.tree.getHead();
+    const activePath = this.tree.getPath().map((node) => node.id);
+
+    console.log(createBox('Conversation Branches', 'Branches'));
+    if (leaves.length === 0) {
+      showInfo('No messages yet');
+      return;
+    }
+
+    leaves.forEach((leaf, index) => {
+      const path = this.tree.getPath(leaf.id);
+      const isCurrent = leaf.id === head?.id;
+      const conversation = path.filter((node) => node.message.role !== 'system');
+      const lastUser = [...conversation].reverse().find((node) => node.message.role === 'user');
+      const lastReply = conversation[conversation.length - 1];
+
+      // Number of messages this branch shares with the active one
+      let shared = 0;
+      while (shared < path.length && path[shared]?.id === activePath[shared]) shared++;
+      const sharedMessages = path.slice(0, shared).filter((node) => node.message.role !== 'system').length;
+
+      const preview = (lastUser?.message.content.trim().split('\n')[0] ?? '(no messages)').substring(0, 60);
+      const details = [`${conversation.length} messages`];
+      if (lastReply?.message.model) {
+        details.push(getModelDisplayName(lastReply.message.model));
+      }
+      if (!isCurrent && shared < path.length) {
+        details.push(sharedMessages > 0 ? `splits after message ${sharedMessages}` : 'separate from the start');
+      }
+
+      const marker = isCurrent ? colors.success(symbol('current')) : ' ';
+      console.log(`${marker} ${colors.primary(String(index + 1))}. ${preview}`);
+      console.log(colors.muted(`     ${details.join(' · ')}`));
+    });
+
+    if (head && !leaves.some((leaf) => leaf.id === head.id)) {
+      console.log();
+      console.log(colors.muted('You are at an earlier point in the conversation; your next message starts a new branch.'));
+    }
+    console.log();
+    console.log(colors.muted('Use /checkout <n> to switch branches'));
+  }
+
+  // Switch to another branch by its number in /branches
+  async checkoutBranch(arg: string) {
+    const leaves = this.tree.getLeaves();
+    const index = parseInt(arg, 10);
+    const leaf = leaves[index - 1];
+    if (!arg || isNaN(index) || !leaf) {
+      showError('Usage: /checkout <n>', `Choose a branch between 1 and ${leaves.length} (see /branches)`);
+      return;
+    }
+
+    this.tree.setHead(leaf.id);
+    const messageCount = this.messages.filter((m) => m.role !== 'system').length;
+    showSuccess(`Switched to branch ${index} (${messageCount} messages)`);
+
+    // Show where the branch left off
+    const lastReply = this.tree.findLast('assistant');
+    if (lastReply) {
+      console.log();
+      console.log(colors.primary(withIcon('🤖', 'Assistant:')));
+      console.log(this.raw ? lastReply.message.content : renderMarkdown(lastReply.message.content));
+    }
+    await this.autoSave();
+  }
+
+  // Fill in a saved prompt template and send it. Variables not given as key=value are asked for.
+  async usePrompt(args: string) {
+    const [name, ...pairs] = splitArgs(args);
+    if (!name) {
+      await this.listPrompts();
+      return;
+    }
+
+    try {
+      const template = await promptLibrary.load(name);
+      const values = parseVars(pairs);
+
+      for (const variable of extractVariables(template.template)) {
+        if (values[variable] !== undefined) continue;
+        const { value } = await inquirer.prompt<{ value: string }>({
+          type: 'input',
+          name: 'value',
+          message: `${variable}:`,
+        });
+        values[variable] = value;
+      }
+
+      const message = renderTemplate(template.template, values);
+      // Older prompt files can hold null for a temperature that was not a number
+      const temperature = template.temperature ?? undefined;
+      const details: string[] = [];
+      if (template.model) details.push(getModelDisplayName(template.model));
+      if (temperature !== undefined) details.push(`temperature ${temperature}`);
+      console.log(colors.muted(`Using prompt ${name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`));
+      if (template.system) {
+        console.log(colors.muted('The template\'s system prompt is only used by megacli ask; this chat keeps its own.'));
+      }
+
+      await this.sendMessage(message, { model: template.model, temperature });
+    } catch (error) {
+      showError('Could not use prompt', (error as Error).message);
+    }
+  }
+
+  // List saved prompt templates
+  async listPrompts() {
+    const prompts = await promptLibrary.list();
+    if (prompts.length === 0) {
+      showInfo('No saved prompts yet');
+      console.log(colors.muted('Add one with'), colors.primary('megacli prompts add <name>'));
+      return;
+    }
+
+    console.log(colors.primary(withIcon('📝', 'Prompts:')));
+    prompts.forEach((prompt) => {
+      const variables = extractVariables(prompt.template);
+      const vars = variables.map((v) => `{{${v}}}`).join(', ');
+      console.log(`  ${prompt.name}`, colors.muted([prompt.description, vars].filter(Boolean).join(' · ')));
+    });
+    console.log(colors.muted('Use /prompt <name> [key=value ...] to send one'));
+  }
+
+  // Export the conversation; the file extension picks the format
+  async exportConversation(filePath: string) {
+    const format = formatFromPath(filePath);
+    if (!format) {
+      showError(`Unsupported export format: ${filePath}`, 'Use a .md, .json or .html extension');
+      return;
+    }
+
+    try {
+      const outputPath = path.resolve(filePath);
+      await fs.writeFile(outputPath, exportSession(this.toRecord(), format), 'utf-8');
+      showSuccess(`Conversation exported to ${colors.primary(outputPath)}`);
+    } catch (error) {
+      showError('Failed to export conversation', (error as Error).message);
+    }
+  }
+
+  // Restore a saved session into this chat
+  loadRecord(record: ChatSessionRecord) {
+    this.sessionId = record.id;
+    this.sessionTitle = record.title;
+    this.createdAt = record.createdAt;
+    this.currentModel = record.model;
+    this.params = {
+      temperature: record.temperature,
+      maxTokens: record.maxTokens,
+      ...record.sampling,
+    };
+    this.startParams = { ...this.params };
+    this.persona = record.persona;
+    this.tree = record.tree
+      ? new ConversationTree(record.tree)
+      : ConversationTree.fromMessages(record.messages);
+    this.tokenUsage = { ...record.tokenUsage };
+  }
+
+  // Snapshot the session for storage
+  toRecord(): ChatSessionRecord {
+    const { temperature, maxTokens, ...sampling } = this.params;
+    return {
+      id: this.sessionId,
+      title: this.sessionTitle || deriveSessionTitle({ messages: this.messages }),
+      model: this.currentModel,
+      temperature,
+      maxTokens,
+      messages: this.messages,
+      tree: this.tree.toJSON(),
+      ...(this.persona && { persona: this.persona }),
+      ...(Object.keys(sampling).length > 0 && { sampling }),
+      tokenUsage: this.tokenUsage,
+      createdAt: this.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  // Start a fresh session so the previous one stays intact on disk
+  private startNewSession() {
+    this.sessionId = historyManager.createId();
+    this.sessionTitle = '';
+    this.createdAt = new Date().toISOString();
+    this.tokenUsage = { prompt: 0, completion: 0, total: 0 };
+  }
+
+  // Save after each exchange when history is enabled
+  private async autoSave() {
+    if (configManager.get('saveHistory') === false) {
+      return;
+    }
+
+    try {
+      await historyManager.save(this.toRecord());
+    } catch (error) {
+      showWarning(`Could not save chat history: ${(error as Error).message}`);
+    }
+  }
+
   // Show help
   showHelp() {
     console.log(createBox('Available Commands', 'Help'));
-    console.log(colors.primary('  /exit, /quit'), colors.muted('- Exit chat'));
-    console.log(colors.primary('  /clear'), colors.muted('- Clear conversation history'));
-    console.log(colors.primary('  /models'), colors.muted('- List all available models'));
-    console.log(colors.primary('  /switch <model>'), colors.muted('- Change to different model'));
-    console.log(colors.primary('  /info'), colors.muted('- Show current settings and stats'));
-    console.log(colors.primary('  /help'), colors.muted('- Show this help message'));
+    this.commands.showHelp();
+    console.log(colors.muted('  Mention @path/to/file in a message to include that file inline.'));
+    console.log(colors.muted('  Define your own commands as prompt macros under "macros" in the config file.'));
     console.log();
   }
 
   // Show current info
   showInfo() {
     console.log(createBox('Current Session Info', 'Info'));
+    console.log(colors.muted('Session:'), colors.primary(this.sessionId));
     console.log(colors.muted('Model:'), colors.primary(getModelDisplayName(this.currentModel)));
-    console.log(colors.muted('Temperature:'), this.temperature);
-    console.log(colors.muted('Max Tokens:'), this.maxTokens);
+    console.log(colors.muted('Persona:'), this.persona ?? 'none');
+    this.showParams();
+    console.log(colors.muted('Streaming:'), this.streaming ? 'enabled' : 'disabled');
     console.log(colors.muted('Messages:'), this.messages.filter((m) => m.role !== 'system').length);
     console.log(colors.muted('Tokens Used:'), this.tokenUsage.total);
+    console.log(colors.muted('Estimated Cost:'), formatCost(this.tokenUsage.cost ?? 0));
+
+    // Context window usage for the next request
+    const budget = getContextBudget(this.currentModel, this.params.maxTokens);
+    const used = estimateMessageTokens(this.messages);
+    console.log(
+      colors.muted('Context:'),
+      createMeter(used + budget.reservedOutput, budget.contextLength),
+      colors.muted(
+        `~${used.toLocaleString()} used + ${budget.reservedOutput.toLocaleString()} reserved for reply` +
+        ` / ${budget.contextLength.toLocaleString()} tokens`
+      )
+    );
     console.log();
   }
 
@@ -185,142 +985,270 @@ class ChatSession {
   showGoodbye() {
     console.log();
     showDivider();
-    console.log(colors.success('👋 Thanks for using MegaCLI!'));
+    console.log(colors.success(withIcon('👋', 'Thanks for using MegaCLI!')));
     console.log(colors.muted('Total tokens used:'), colors.primary(this.tokenUsage.total.toString()));
+    console.log(colors.muted('Estimated cost:'), colors.primary(formatCost(this.tokenUsage.cost ?? 0)));
+    if (
+      configManager.get('saveHistory') !== false &&
+      this.messages.some((m) => m.role !== 'system')
+    ) {
+      console.log(colors.muted('Resume with:'), colors.primary(`megacli chat --resume ${this.sessionId}`));
+    }
     console.log();
   }
 
-  // Send message and get response
-  async sendMessage(userMessage: string): Promise<void> {
+  // Send message and get response. Returns false if it was not sent or was cancelled.
+  async sendMessage(userMessage: string, overrides: ReplyOverrides = {}): Promise<boolean> {
+    const attachments = await this.collectAttachments(userMessage);
+    if (attachments === null) {
+      return false;
+    }
+
     // Add user message
-    this.messages.push({
+    const nodeId = this.tree.append({
       role: 'user',
-      content: userMessage,
+      content: appendAttachments(userMessage, attachments),
+      timestamp: new Date().toISOString(),
+      ...(attachments.length > 0 && { attachments: attachments.map((a) => a.path) }),
     });
 
-    const spinner = ora('Thinking...').start();
+    if (!(await this.generateReply(overrides.model ?? this.currentModel, overrides.temperature))) {
+      // Cancelled before any text arrived - drop the unanswered message
+      this.tree.remove(nodeId);
+      return false;
+    }
+    return true;
+  }
+
+  // Ask the model to answer the active branch. Returns false if the request was
+  // cancelled before any text arrived.
+  private async generateReply(modelId: string, temperature = this.params.temperature): Promise<boolean> {
+    const params = { ...this.params, temperature };
+    const requestMessages = this.prepareRequestMessages(modelId);
+    const spinner = createSpinner('Thinking...').start();
+    this.abortController = new AbortController();
+    const { signal } = this.abortController;
 
     try {
-      await this.getResponse(spinner);
+      if (this.streaming) {
+        await this.streamResponse(spinner, requestMessages, modelId, params, signal);
+      } else {
+        await this.getResponse(spinner, requestMessages, modelId, params, signal);
+      }
     } catch (error) {
-      spinner.fail('Failed to get response');
-      if (error instanceof Error) {
-        showError('API Error', error.message);
+      if (error instanceof APIUserAbortError) {
+        spinner.stop();
+        showWarning('Request cancelled');
+        return false;
       }
+      spinner.fail('Failed to get response');
+      showAPIError(toAPIError(error));
+    } finally {
+      this.abortController = null;
     }
+
+    await this.autoSave();
+    return true;
+  }
+
+  // Fit the conversation into the model's context window, dropping the oldest turns
+  // from the request if needed. The full history is kept in this.messages.
+  private prepareRequestMessages(modelId: string): ChatMessage[] {
+    const budget = getContextBudget(modelId, this.params.maxTokens);
+    const { messages, dropped, tokens } = fitToContext(this.messages, budget, (count): ChatMessage => ({
+      role: 'system',
+      content: `[${count} earlier message(s) omitted to fit the context window]`,
+    }));
+
+    if (dropped > 0) {
+      showWarning(`Context window nearly full - omitted ${dropped} oldest message(s) from this request`);
+    }
+    if (tokens > budget.contextLength - budget.reservedOutput) {
+      showWarning(
+        `Message is ~${tokens.toLocaleString()} tokens, more than ${getModelDisplayName(modelId)} can accept`
+      );
+    }
+
+    return messages;
+  }
+
+  // Cancel the in-flight request, if any. Returns true if something was cancelled.
+  cancelRequest(): boolean {
+    if (!this.abortController) {
+      return false;
+    }
+    this.abortController.abort();
+    return true;
   }
 
   // Get non-streaming response
-  async getResponse(spinner: ReturnType<typeof ora>) {
-    const response = await this.client.chat.completions.create({
-      model: this.currentModel,
-      messages: toOpenAIMessages(this.messages),
-      temperature: this.temperature,
-      max_tokens: this.maxTokens,
-    });
+  async getResponse(
+    spinner: Ora,
+    requestMessages: ChatMessage[],
+    modelId: string,
+    params: SamplingParams,
+    signal?: AbortSignal
+  ) {
+    const response = await this.client.chat.completions.create(
+      {
+        model: modelId,
+        messages: toOpenAIMessages(requestMessages),
+        ...toRequestParams(params),
+      },
+      { signal }
+    );
 
     const assistantMessage = response.choices[0]?.message.content || '';
     
     spinner.stop();
     console.log();
-    console.log(colors.primary('🤖 Assistant:'));
-    console.log(assistantMessage);
-    console.log();
+    console.log(colors.primary(withIcon('🤖', 'Assistant:')));
+    console.log(this.raw ? assistantMessage : renderMarkdown(assistantMessage));
 
     // Save assistant message
-    this.messages.push({
+    this.tree.append({
       role: 'assistant',
       content: assistantMessage,
+      timestamp: new Date().toISOString(),
+      model: modelId,
     });
 
     // Update token usage
-    if (response.usage) {
-      this.tokenUsage.prompt += response.usage.prompt_tokens;
-      this.tokenUsage.completion += response.usage.completion_tokens;
-      this.tokenUsage.total += response.usage.total_tokens;
-    }
+    this.recordUsage(modelId, assistantMessage, response.usage);
   }
 
   // Get streaming response
-  async streamResponse(spinner: ReturnType<typeof ora>) {
-    const stream = await this.client.chat.completions.create({
-      model: this.currentModel,
-      messages: toOpenAIMessages(this.messages),
-      temperature: this.temperature,
-      max_tokens: this.maxTokens,
-      stream: true,
-      stream_options: { include_usage: true },
-    });
+  async streamResponse(
+    spinner: Ora,
+    requestMessages: ChatMessage[],
+    modelId: string,
+    params: SamplingParams,
+    signal?: AbortSignal
+  ) {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: modelId,
+        messages: toOpenAIMessages(requestMessages),
+        ...toRequestParams(params),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal }
+    );
 
     spinner.stop();
     console.log();
-    console.log(colors.primary('🤖 Assistant:'));
+    console.log(colors.primary(withIcon('🤖', 'Assistant:')));
 
     let fullContent = '';
-    let usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | undefined;
+    let usage: UsageData | undefined;
+    const renderer = this.raw ? null : new MarkdownStream();
 
+    // The SDK ends the stream quietly when the request is aborted
     for await (const chunk of stream) {
       const content = chunk.choices[0]?.delta?.content || '';
       if (content) {
-        process.stdout.write(content);
+        if (renderer) {
+          renderer.write(content);
+        } else {
+          process.stdout.write(content);
+        }
         fullContent += content;
       }
-      
+
       // Capture usage from final chunk
       if (chunk.usage) {
         usage = chunk.usage;
       }
     }
 
-    console.log('\n');
+    const truncated = signal?.aborted ?? false;
+    if (truncated && !fullContent) {
+      // Nothing streamed yet - let sendMessage treat it as a plain cancellation
+      throw new APIUserAbortError();
+    }
+
+    if (renderer) {
+      renderer.end();
+    } else {
+      console.log();
+    }
+    if (truncated) {
+      showWarning('Generation cancelled - partial reply kept in history');
+    }
 
     // Save assistant message
-    this.messages.push({
+    this.tree.append({
       role: 'assistant',
       content: fullContent,
+      timestamp: new Date().toISOString(),
+      model: modelId,
+      ...(truncated && { truncated: true }),
     });
 
-    // Update token usage if available
+    this.recordUsage(modelId, fullContent, usage);
+  }
+
+  // Update token usage and cost, estimating when the API did not report usage
+  private recordUsage(modelId: string, completion: string, usage?: UsageData) {
+    let promptTokens: number;
+    let completionTokens: number;
+
     if (usage) {
-      this.tokenUsage.prompt += usage.prompt_tokens;
-      this.tokenUsage.completion += usage.completion_tokens;
-      this.tokenUsage.total += usage.total_tokens;
+      promptTokens = usage.prompt_tokens;
+      completionTokens = usage.completion_tokens;
     } else {
       // Fallback: estimate tokens (rough approximation: 1 token ≈ 4 characters)
-      const estimatedCompletionTokens = Math.ceil(fullContent.length / 4);
-      const estimatedPromptTokens = Math.ceil(
+      completionTokens = estimateTokens(completion);
+      promptTokens = estimateTokens(
         this.messages
           .filter((m) => m.role !== 'assistant')
-          .map((m) => m.content.length)
-          .reduce((a, b) => a + b, 0) / 4
+          .map((m) => m.content)
+          .join('')
       );
-      this.tokenUsage.prompt += estimatedPromptTokens;
-      this.tokenUsage.completion += estimatedCompletionTokens;
-      this.tokenUsage.total += estimatedPromptTokens + estimatedCompletionTokens;
     }
+
+    const cost = calculateCost(modelId, promptTokens, completionTokens) ?? 0;
+    this.tokenUsage.prompt += promptTokens;
+    this.tokenUsage.completion += completionTokens;
+    this.tokenUsage.total += promptTokens + completionTokens;
+    this.tokenUsage.cost = (this.tokenUsage.cost ?? 0) + cost;
+
+    const prefix = usage ? '' : '~';
+    console.log(
+      colors.muted(
+        `${prefix}${promptTokens.toLocaleString()} in · ${prefix}${completionTokens.toLocaleString()} out · ${formatCost(cost)}`
+      )
+    );
+    console.log();
+
+    void usageLedger.record({
+      command: 'chat',
+      model: modelId,
+      promptTokens,
+      completionTokens,
+      estimated: !usage,
+    });
   }
 
   // Main chat loop
   async start() {
     this.showWelcome();
 
-    // Handle Ctrl+C gracefully
+    // Ctrl+C cancels the in-flight reply; otherwise exit gracefully
     const handleExit = () => {
+      if (this.cancelRequest()) {
+        return;
+      }
       this.showGoodbye();
       process.exit(0);
     };
-    
+
     process.on('SIGINT', handleExit);
 
     try {
       while (true) {
-        const { message } = await inquirer.prompt<{ message: string }>({
-          type: 'input',
-          name: 'message',
-          message: 'You:',
-        });
-
-        const input = message;
+        const input = await promptMessage('You:');
 
         if (!input.trim()) {
           continue;
@@ -356,22 +1284,75 @@ class ChatSession {
 
 // Chat command action
 async function chatCommand(options: ChatOptions) {
-  ensureAuthenticated();
+  await ensureAuthenticated();
 
-  // Validate temperature
-  if (options.temperature !== undefined && (options.temperature < 0 || options.temperature > 2)) {
-    showError('Invalid temperature', 'Temperature must be between 0 and 2');
+  // Validate sampling parameters
+  const flagSampling: SamplingOptions = {
+    ...(options.topP !== undefined && { topP: options.topP }),
+    ...(options.frequencyPenalty !== undefined && { frequencyPenalty: options.frequencyPenalty }),
+    ...(options.presencePenalty !== undefined && { presencePenalty: options.presencePenalty }),
+    ...(options.stop !== undefined && { stop: options.stop }),
+    ...(options.seed !== undefined && { seed: options.seed }),
+  };
+  try {
+    validateParams({ temperature: options.temperature, maxTokens: options.maxTokens, ...flagSampling });
+  } catch (error) {
+    showError('Invalid parameter', (error as Error).message);
     process.exit(1);
   }
 
-  // Validate max tokens
-  if (options.maxTokens !== undefined && options.maxTokens < 1) {
-    showError('Invalid max tokens', 'Max tokens must be at least 1');
+  if (options.system && options.systemFile) {
+    showError('Conflicting options', 'Use either --system or --system-file, not both');
     process.exit(1);
   }
 
-  // Resolve model
-  let modelId = options.model || configManager.get('defaultModel') || 'claude-sonnet';
+  // Read the system prompt from a file, e.g. one kept in the repo
+  let system = options.system;
+  if (options.systemFile) {
+    try {
+      system = (await fs.readFile(path.resolve(options.systemFile), 'utf-8')).trim();
+    } catch (error) {
+      showError('Could not read system prompt file', (error as Error).message);
+      process.exit(1);
+    }
+  }
+
+  let persona: Persona | undefined;
+  if (options.persona) {
+    try {
+      persona = await personaStore.load(options.persona);
+    } catch (error) {
+      showError('Could not load persona', (error as Error).message);
+      process.exit(1);
+    }
+  }
+
+  // Load the session to resume, if requested
+  let record: ChatSessionRecord | undefined;
+  if (options.resume) {
+    try {
+      record =
+        options.resume === true
+          ? await historyManager.latest()
+          : await historyManager.load(options.resume);
+    } catch (error) {
+      showError('Could not resume session', (error as Error).message);
+      process.exit(1);
+    }
+
+    if (!record) {
+      showError('No saved sessions to resume', 'Start a new chat with "megacli chat"');
+      process.exit(1);
+    }
+  }
+
+  // Resolve model (explicit flags win over the persona, which wins over the resumed session)
+  let modelId =
+    options.model ||
+    persona?.model ||
+    record?.model ||
+    configManager.get('defaultModel') ||
+    'claude-sonnet';
   const model = modelRegistry.getModel(modelId);
   
   if (!model) {
@@ -380,14 +1361,39 @@ async function chatCommand(options: ChatOptions) {
   }
   modelId = model.id;
 
+  const temperature =
+    options.temperature ??
+    persona?.temperature ??
+    record?.temperature ??
+    configManager.get('temperature') ??
+    0.7;
+  const maxTokens =
+    options.maxTokens ?? record?.maxTokens ?? configManager.get('maxTokens') ?? 2048;
+  const sampling: SamplingOptions = { ...record?.sampling, ...flagSampling };
+
   // Create session
   const session = new ChatSession({
     model: modelId,
-    system: options.system || 'You are a helpful AI assistant.',
-    temperature: options.temperature ?? configManager.get('temperature') ?? 0.7,
-    maxTokens: options.maxTokens ?? configManager.get('maxTokens') ?? 2048,
+    system: system || persona?.system || configManager.get('systemPrompt') || 'You are a helpful AI assistant.',
+    temperature,
+    maxTokens,
+    stream: options.stream === false ? false : configManager.get('streaming') ?? true,
+    raw: options.raw ?? false,
+    persona: system ? undefined : persona?.name,
+    sampling,
   });
 
+  if (record) {
+    session.loadRecord({ ...record, model: modelId, temperature, maxTokens, sampling });
+
+    // A system prompt or persona given on the command line replaces the saved one
+    if (system) {
+      session.setSystemPrompt(system);
+    } else if (persona) {
+      session.setSystemPrompt(persona.system, persona.name);
+    }
+  }
+
   // Start chat
   await session.start();
 }
@@ -400,8 +1406,18 @@ export function createChatCommand(): Command {
     .description('Start interactive chat with AI models')
     .option('-m, --model <model>', 'Model to use (ID or alias)')
     .option('-s, --system <prompt>', 'System prompt')
+    .option('--system-file <path>', 'Read the system prompt from a file')
+    .option('-p, --persona <name>', 'Use a saved persona (system prompt, model and temperature)')
     .option('-t, --temperature <number>', 'Temperature (0-2)', parseFloat)
     .option('--max-tokens <number>', 'Maximum tokens in response', parseInt)
+    .option('--top-p <number>', 'Nucleus sampling (0-1)', parseFloat)
+    .option('--frequency-penalty <number>', 'Frequency penalty (-2 to 2)', parseFloat)
+    .option('--presence-penalty <number>', 'Presence penalty (-2 to 2)', parseFloat)
+    .option('--stop <sequence>', 'Stop sequence (repeatable, up to 4)', collect)
+    .option('--seed <number>', 'Seed for more repeatable sampling', parseInt)
+    .option('--no-stream', 'Wait for the full response instead of streaming it')
+    .option('--raw', 'Print replies as raw Markdown (useful when piping)')
+    .option('-r, --resume [id]', 'Resume a saved session (the most recent if no ID is given)')
     .action(chatCommand);
 
   return chatCmd;
@@ -2,12 +2,30 @@ import { Command } from 'commander';
 import inquirer from 'inquirer';
 import OpenAI from 'openai';
 import chalk from 'chalk';
-import ora from 'ora';
-import boxen from 'boxen';
 import { execSync } from 'child_process';
-import { configManager } from '../lib/config.js';
+import { configManager, ensureAuthenticated } from '../lib/config.js';
+import { createClient } from '../lib/api-client.js';
+import { toAPIError, showAPIError, exitWithAPIError } from '../lib/errors.js';
 import { FileSystemManager } from '../lib/filesystem.js';
 import { ProjectAnalyzer } from '../lib/project-analyzer.js';
+import {
+  colors,
+  symbol,
+  withIcon,
+  createSpinner,
+  createBox,
+  createDivider,
+  showSuccess,
+  showError,
+  showWarning,
+  showInfo,
+  renderMarkdown,
+} from '../lib/ui.js';
+import { promptMessage, composeInEditor } from '../lib/input.js';
+import { fitToContext, getContextBudget, estimateTokens, estimateMessageTokens } from '../lib/tokens.js';
+import { calculateCost } from '../lib/models.js';
+import { usageLedger, formatCost } from '../lib/usage.js';
+import { CommandRegistry } from '../lib/slash-commands.js';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 
 interface CodeSession {
@@ -17,8 +35,13 @@ interface CodeSession {
   messages: ChatCompletionMessageParam[];
   filesModified: Set<string>;
   commandsExecuted: Array<{ command: string; output: string }>;
+  // Estimated spend for this session in USD
+  cost: number;
 }
 
+// Reduced for more concise responses
+const MAX_RESPONSE_TOKENS = 1024;
+
 const SYSTEM_PROMPT = `You are an expert coding assistant working in a CLI environment. Respond EXACTLY like a helpful developer would - concise, direct, and thoughtful.
 
 CRITICAL MINDSET:
@@ -68,25 +91,65 @@ RULES:
 
 Remember: Act like YOU (GitHub Copilot) would respond - smart, concise, helpful.`;
 
+// Chaining, pipes, redirects and substitution, which could slip another command past allowedCommands
+const SHELL_OPERATORS = /[;&|<>`\n]|\$\(/;
+
+// Helper: Check a command against the allowedCommands setting. Each entry allows
+// that command with any arguments.
+function isCommandAllowed(command: string, allowed: string[]): boolean {
+  const trimmed = command.trim();
+  if (SHELL_OPERATORS.test(trimmed)) {
+    return false;
+  }
+  return allowed.some((entry) => trimmed === entry.trim() || trimmed.startsWith(`${entry.trim()} `));
+}
+
+// Helper: The system prompt, plus extra instructions and command limits from the config
+function buildSystemMessages(): ChatCompletionMessageParam[] {
+  const messages: ChatCompletionMessageParam[] = [{ role: 'system', content: SYSTEM_PROMPT }];
+
+  const instructions = configManager.get('systemPrompt');
+  if (instructions) {
+    messages.push({ role: 'system', content: `Additional instructions:\n${instructions}` });
+  }
+
+  const allowed = configManager.get('allowedCommands');
+  if (allowed) {
+    messages.push({
+      role: 'system',
+      content: `Only these commands may be run, each with any arguments and without pipes or chaining: ${allowed.join(', ')}`,
+    });
+  }
+
+  return messages;
+}
+
+interface CodeOptions {
+  task?: string;
+  raw?: boolean;
+}
+
 class CodeAssistant {
   private session: CodeSession;
+  private raw: boolean;
+  private commands = new CommandRegistry();
 
-  constructor() {
-    const apiKey = configManager.getApiKey();
-    if (!apiKey) {
+  constructor(options: CodeOptions = {}) {
+    this.raw = options.raw ?? false;
+
+    if (!configManager.isOffline() && !configManager.getApiKey()) {
       throw new Error('No API key configured. Run: megacli auth login');
     }
 
+    const ignore = configManager.get('ignore') ?? [];
     this.session = {
-      fs: new FileSystemManager(process.cwd()),
-      analyzer: new ProjectAnalyzer(process.cwd()),
-      client: new OpenAI({
-        apiKey,
-        baseURL: configManager.get('baseUrl'),
-      }),
-      messages: [{ role: 'system', content: SYSTEM_PROMPT }],
+      fs: new FileSystemManager(process.cwd(), ignore),
+      analyzer: new ProjectAnalyzer(process.cwd(), ignore),
+      client: createClient(),
+      messages: buildSystemMessages(),
       filesModified: new Set(),
       commandsExecuted: [],
+      cost: 0,
     };
   }
 
@@ -101,16 +164,18 @@ class CodeAssistant {
     if (!configManager.isWorkspaceTrusted(workspacePath)) {
       const trustPrompt = await this.promptWorkspaceTrust(workspacePath);
       if (!trustPrompt) {
-        console.log(chalk.yellow('\n⚠ ') + chalk.gray('Workspace not trusted. Exiting...'));
+        console.log('');
+        showWarning('Workspace not trusted. Exiting...');
         return;
       }
       configManager.trustWorkspace(workspacePath);
     }
 
     await this.showWelcome();
+    this.registerCommands();
 
     // Analyze project in background
-    const spinner = ora('Analyzing project structure...').start();
+    const spinner = createSpinner('Analyzing project structure...').start();
     try {
       const context = await this.session.analyzer.buildAIContext();
       this.session.messages.push({
@@ -125,34 +190,32 @@ class CodeAssistant {
     // Main interaction loop
     while (true) {
       try {
-        const answers: { input: string } = await inquirer.prompt([
-          {
-            type: 'input',
-            name: 'input',
-            message: chalk.cyan('You:'),
-          },
-        ]);
-
-        const trimmed = answers.input.trim();
+        const input = await promptMessage(colors.primary('You:'));
+
+        const trimmed = input.trim();
         if (!trimmed) continue;
 
         // Handle special commands
         if (trimmed.startsWith('/')) {
-          const handled = await this.handleCommand(trimmed);
-          if (handled === 'exit') break;
+          const shouldExit = await this.commands.dispatch(trimmed);
+          if (shouldExit) break;
           continue;
         }
 
         // Send to AI
         console.log(''); // Add spacing
         await this.processMessage(trimmed);
-        console.log('\n' + chalk.gray('─'.repeat(90)));
+        console.log('\n' + createDivider(90));
       } catch (error) {
         if ((error as Error).name === 'ExitPromptError') {
-          console.log('\n' + chalk.cyan('👋 ') + chalk.gray('Goodbye!'));
+          console.log('\n' + withIcon('👋', colors.muted('Goodbye!')));
           break;
         }
-        console.log(chalk.red(`✗ Error: ${(error as Error).message}`));
+        if (error instanceof OpenAI.APIError) {
+          showAPIError(toAPIError(error));
+        } else {
+          showError((error as Error).message);
+        }
       }
     }
   }
@@ -162,10 +225,10 @@ class CodeAssistant {
    */
   async executeTask(task: string): Promise<void> {
     console.clear();
-    console.log(chalk.blue('ℹ') + ` Executing task: ${task}`);
+    showInfo(`Executing task: ${task}`);
 
     // Analyze project
-    const spinner = ora('Analyzing project...').start();
+    const spinner = createSpinner('Analyzing project...').start();
     try {
       const context = await this.session.analyzer.buildAIContext();
       this.session.messages.push({
@@ -182,16 +245,18 @@ class CodeAssistant {
 
     // Show summary
     if (this.session.filesModified.size > 0) {
-      console.log(chalk.green('✓') + ` Modified ${this.session.filesModified.size} file(s)`);
-      console.log(chalk.gray('Files changed:'));
-      this.session.filesModified.forEach(f => console.log(chalk.gray(`  - ${f}`)));
+      showSuccess(`Modified ${this.session.filesModified.size} file(s)`);
+      console.log(colors.muted('Files changed:'));
+      this.session.filesModified.forEach(f => console.log(colors.muted(`  - ${f}`)));
     }
     
     if (this.session.commandsExecuted.length > 0) {
-      console.log(chalk.green('✓') + ` Executed ${this.session.commandsExecuted.length} command(s)`);
-      console.log(chalk.gray('Commands run:'));
-      this.session.commandsExecuted.forEach(cmd => console.log(chalk.gray(`  - ${cmd.command}`)));
+      showSuccess(`Executed ${this.session.commandsExecuted.length} command(s)`);
+      console.log(colors.muted('Commands run:'));
+      this.session.commandsExecuted.forEach(cmd => console.log(colors.muted(`  - ${cmd.command}`)));
     }
+
+    console.log(colors.muted(`Estimated cost: ${formatCost(this.session.cost)}`));
   }
 
   /**
@@ -200,13 +265,27 @@ class CodeAssistant {
   private async processMessage(userMessage: string): Promise<void> {
     this.session.messages.push({ role: 'user', content: userMessage });
 
-    const spinner = ora({ text: chalk.cyan('Thinking...'), color: 'cyan' }).start();
+    // Drop the oldest turns from the request if the conversation outgrew the context window
+    const model = configManager.get('defaultModel') as string;
+    const { messages, dropped } = fitToContext(
+      this.session.messages,
+      getContextBudget(model, MAX_RESPONSE_TOKENS),
+      (count): ChatCompletionMessageParam => ({
+        role: 'system',
+        content: `[${count} earlier message(s) omitted to fit the context window]`,
+      })
+    );
+    if (dropped > 0) {
+      console.log(chalk.dim(`  Context window nearly full - omitted ${dropped} oldest message(s)`));
+    }
+
+    const spinner = createSpinner(colors.primary('Thinking...')).start();
     try {
       const response = await this.session.client.chat.completions.create({
-        model: configManager.get('defaultModel') as string,
-        messages: this.session.messages,
+        model,
+        messages,
         temperature: 0.7,
-        max_tokens: 1024, // Reduced for more concise responses
+        max_tokens: MAX_RESPONSE_TOKENS,
       });
 
       const reply = response.choices[0]?.message?.content || 'No response';
@@ -225,11 +304,7 @@ class CodeAssistant {
         cleanMessage = this.removeCommandTags(cleanMessage);
         
         if (cleanMessage.trim()) {
-          const lines = cleanMessage.split('\n');
-          console.log('\n' + chalk.green('● ') + chalk.white(lines[0]));
-          lines.slice(1).forEach(line => {
-            if (line.trim()) console.log(chalk.gray('  ' + line));
-          });
+          this.printReply(cleanMessage);
         }
 
         // Execute file writes first
@@ -244,21 +319,62 @@ class CodeAssistant {
         console.log();
       } else {
         // Show normal message
-        const lines = reply.split('\n');
-        console.log('\n' + chalk.green('● ') + chalk.white(lines[0]));
-        lines.slice(1).forEach(line => {
-          if (line.trim()) console.log(chalk.gray('  ' + line));
-        });
+        this.printReply(reply);
         console.log();
       }
 
       this.session.messages.push({ role: 'assistant', content: reply });
+
+      this.recordUsage(model, messages, reply, response.usage);
     } catch (error) {
       spinner.fail('Failed to get response');
       throw error;
     }
   }
 
+  /**
+   * Track the cost of a completion and append it to the usage ledger,
+   * estimating the tokens when the API did not report usage
+   */
+  private recordUsage(
+    model: string,
+    messages: ChatCompletionMessageParam[],
+    reply: string,
+    usage: OpenAI.CompletionUsage | undefined
+  ): void {
+    const promptTokens = usage?.prompt_tokens ?? estimateMessageTokens(messages);
+    const completionTokens = usage?.completion_tokens ?? estimateTokens(reply);
+    const cost = calculateCost(model, promptTokens, completionTokens) ?? 0;
+    this.session.cost += cost;
+
+    const prefix = usage ? '' : '~';
+    console.log(
+      chalk.dim(
+        `  ${prefix}${promptTokens.toLocaleString()} in · ${prefix}${completionTokens.toLocaleString()} out · ${formatCost(cost)}`
+      )
+    );
+
+    void usageLedger.record({ command: 'code', model, promptTokens, completionTokens, estimated: !usage });
+  }
+
+  /**
+   * Print an AI reply as a bullet, rendering Markdown unless raw output was requested
+   */
+  private printReply(text: string): void {
+    if (this.raw) {
+      const lines = text.split('\n');
+      console.log('\n' + colors.success(symbol('bullet')) + ' ' + lines[0]);
+      lines.slice(1).forEach(line => {
+        if (line.trim()) console.log(colors.muted('  ' + line));
+      });
+      return;
+    }
+
+    const lines = renderMarkdown(text.trim()).split('\n');
+    console.log('\n' + colors.success(symbol('bullet')) + ' ' + lines[0]);
+    lines.slice(1).forEach(line => console.log('  ' + line));
+  }
+
   /**
    * Extract commands from AI response
    */
@@ -312,11 +428,11 @@ class CodeAssistant {
    * Write content to a file
    */
   private async writeFile(filePath: string, content: string): Promise<void> {
-    console.log(chalk.dim('  → Writing: ') + chalk.cyan(filePath));
+    console.log(chalk.dim(`  ${symbol('current')} Writing: `) + colors.primary(filePath));
     
     try {
       await this.session.fs.writeFile(filePath, content);
-      console.log(chalk.dim('    ') + chalk.green('✓ File written'));
+      console.log(chalk.dim('    ') + colors.success(`${symbol('success')} File written`));
 
       // Track modified file
       this.session.filesModified.add(filePath);
@@ -327,7 +443,7 @@ class CodeAssistant {
         content: `File written: ${filePath}`,
       });
     } catch (error: any) {
-      console.log(chalk.dim('    ') + chalk.red('✗ Write failed: ') + chalk.red(error.message));
+      console.log(chalk.dim('    ') + colors.error(`${symbol('error')} Write failed: ${error.message}`));
       
       // Add error to AI context
       this.session.messages.push({
@@ -341,13 +457,23 @@ class CodeAssistant {
    * Execute a shell command
    */
   private async executeCommand(command: string): Promise<void> {
+    const allowed = configManager.get('allowedCommands');
+    if (allowed && !isCommandAllowed(command, allowed)) {
+      showWarning(`Not allowed by allowedCommands: ${command}`);
+      this.session.messages.push({
+        role: 'system',
+        content: `Command refused: ${command}\nAllowed commands: ${allowed.join(', ')}`,
+      });
+      return;
+    }
+
     // Check if this is a read-only command (don't show output)
     const isReadCommand = command.startsWith('Get-Content') || 
                           command.startsWith('cat ') ||
                           command.includes('Get-ChildItem') && !command.includes('| Select-Object');
     
     if (!isReadCommand) {
-      console.log(chalk.dim('  → Running: ') + chalk.cyan(command));
+      console.log(chalk.dim(`  ${symbol('current')} Running: `) + colors.primary(command));
     }
     
     try {
@@ -380,7 +506,7 @@ class CodeAssistant {
           if (line.trim()) console.log(chalk.dim('    ' + line));
         });
       } else if (!isReadCommand && !output.trim()) {
-        console.log(chalk.dim('    ') + chalk.green('✓ Done'));
+        console.log(chalk.dim('    ') + colors.success(`${symbol('success')} Done`));
       }
 
       // Store command history
@@ -393,8 +519,8 @@ class CodeAssistant {
       });
     } catch (error: any) {
       const errorOutput = error.stderr?.toString() || error.message;
-      console.log(chalk.red('✗ Command failed:'));
-      console.log(chalk.red(errorOutput));
+      showError('Command failed:');
+      console.log(colors.error(errorOutput));
 
       // Add error to AI context
       this.session.messages.push({
@@ -405,71 +531,103 @@ class CodeAssistant {
   }
 
   /**
-   * Handle special commands
+   * Register the built-in slash commands, then the user's macros from config
    */
-  private async handleCommand(command: string): Promise<string | void> {
-    const [cmd, ...args] = command.slice(1).split(' ');
-
-    switch (cmd) {
-      case 'exit':
-      case 'quit':
-        console.log(chalk.yellow('\nGoodbye! 👋'));
-        return 'exit';
-
-      case 'clear':
-        console.clear();
-        await this.showWelcome();
-        break;
-
-      case 'read':
-        await this.readFile(args.join(' '));
-        break;
-
-      case 'write':
-        console.log(chalk.blue('ℹ') + ' Use natural language to ask me to write files');
-        break;
-
-      case 'search':
-        await this.searchFiles(args.join(' '));
-        break;
-
-      case 'tree':
-        await this.showTree();
-        break;
-
-      case 'files':
-        await this.listSourceFiles();
-        break;
-
-      case 'reset':
-        this.session.messages = [{ role: 'system', content: SYSTEM_PROMPT }];
-        console.log(chalk.green('✓') + ' Conversation reset');
-        break;
-
-      case 'help':
-        this.showHelp();
-        break;
-
-      default:
-        console.log(chalk.red(`✗ Unknown command: /${cmd}`));
-        console.log(chalk.gray('Type /help for available commands'));
-    }
+  private registerCommands(): void {
+    this.commands
+      .register({
+        name: 'read',
+        args: '<file>',
+        description: 'Read a file and show its contents',
+        handler: (args) => this.readFile(args),
+      })
+      .register({
+        name: 'search',
+        args: '<text>',
+        description: 'Search for text across source files',
+        handler: (args) => this.searchFiles(args),
+      })
+      .register({
+        name: 'tree',
+        description: 'Show project file tree',
+        handler: () => this.showTree(),
+      })
+      .register({
+        name: 'files',
+        description: 'List all source files',
+        handler: () => this.listSourceFiles(),
+      })
+      .register({
+        name: 'compose',
+        description: 'Compose a message in $EDITOR and send it',
+        handler: async () => {
+          const message = await composeInEditor();
+          if (!message) {
+            showInfo('Empty message, nothing sent');
+            return;
+          }
+          await this.sendFromCommand(message);
+        },
+      })
+      .register({
+        name: 'write',
+        description: 'How to have files written',
+        handler: () => {
+          showInfo('Use natural language to ask me to write files');
+        },
+      })
+      .register({
+        name: 'reset',
+        description: 'Reset conversation history',
+        handler: () => {
+          this.session.messages = buildSystemMessages();
+          showSuccess('Conversation reset');
+        },
+      })
+      .register({
+        name: 'clear',
+        description: 'Clear the screen',
+        handler: async () => {
+          console.clear();
+          await this.showWelcome();
+        },
+      })
+      .register({
+        name: 'help',
+        aliases: ['?'],
+        description: 'Show this help',
+        handler: () => this.showHelp(),
+      })
+      .register({
+        name: 'exit',
+        aliases: ['quit'],
+        description: 'Exit code assistant',
+        handler: () => {
+          console.log(colors.warning('\n' + withIcon('👋', 'Goodbye!')));
+          return true;
+        },
+      })
+      .addMacros((prompt) => this.sendFromCommand(prompt));
+  }
+
+  /**
+   * Send a message produced by a slash command (compose or a macro)
+   */
+  private async sendFromCommand(message: string): Promise<void> {
+    console.log('');
+    await this.processMessage(message);
+    console.log('\n' + createDivider(90));
   }
 
   /**
    * Read and display a file
    */
   private async readFile(filePath: string): Promise<void> {
-    if (!filePath) {
-      console.log(chalk.red('✗ Usage: /read <file-path>'));
-      return;
-    }
-
     try {
       const content = await this.session.fs.readFile(filePath);
-      console.log(chalk.cyan(`\n=== ${filePath} ===`));
+      console.log(colors.primary(`\n=== ${filePath} ===`));
       console.log(content);
-      console.log(chalk.cyan('='.repeat(filePath.length + 8)) + '\n');
+      console.log(colors.primary('='.repeat(filePath.length + 8)) + '\n');
 
       // Add to AI context
       this.session.messages.push({
@@ -477,7 +635,7 @@ class CodeAssistant {
         content: `File content of ${filePath}:\n\`\`\`\n${content}\n\`\`\``,
       });
     } catch (error) {
-      console.log(chalk.red(`✗ Could not read file: ${(error as Error).message}`));
+      showError(`Could not read file: ${(error as Error).message}`);
     }
   }
 
@@ -485,36 +643,31 @@ class CodeAssistant {
    * Search for files
    */
   private async searchFiles(query: string): Promise<void> {
-    if (!query) {
-      console.log(chalk.red('✗ Usage: /search <text>'));
-      return;
-    }
-
-    const spinner = ora('Searching...').start();
+    const spinner = createSpinner('Searching...').start();
     try {
       const results = await this.session.fs.searchInFiles('**/*.{ts,js,tsx,jsx}', query);
       spinner.stop();
 
       if (results.length === 0) {
-        console.log(chalk.blue('ℹ') + ' No results found');
+        showInfo('No results found');
         return;
       }
 
-      console.log(chalk.cyan(`\nFound ${results.length} file(s):\n`));
+      console.log(colors.primary(`\nFound ${results.length} file(s):\n`));
       results.slice(0, 10).forEach(result => {
         console.log(chalk.bold(result.path));
         result.matches.slice(0, 3).forEach(match => {
-          console.log(chalk.gray(`  Line ${match.line}: ${match.content}`));
+          console.log(colors.muted(`  Line ${match.line}: ${match.content}`));
         });
         console.log();
       });
 
       if (results.length > 10) {
-        console.log(chalk.gray(`... and ${results.length - 10} more`));
+        console.log(colors.muted(`... and ${results.length - 10} more`));
       }
     } catch (error) {
       spinner.fail('Search failed');
-      console.log(chalk.red((error as Error).message));
+      console.log(colors.error((error as Error).message));
     }
   }
 
@@ -522,7 +675,7 @@ class CodeAssistant {
    * Show file tree
    */
   private async showTree(): Promise<void> {
-    const spinner = ora('Building tree...').start();
+    const spinner = createSpinner('Building tree...').start();
     try {
       const tree = await this.session.analyzer.getFileTree('.', 3);
       spinner.stop();
@@ -536,16 +689,16 @@ class CodeAssistant {
    * List source files
    */
   private async listSourceFiles(): Promise<void> {
-    const spinner = ora('Finding source files...').start();
+    const spinner = createSpinner('Finding source files...').start();
     try {
       const files = await this.session.analyzer.findSourceFiles();
       spinner.stop();
 
-      console.log(chalk.cyan(`\nFound ${files.length} source file(s):\n`));
-      files.slice(0, 20).forEach(f => console.log(chalk.gray(`  ${f}`)));
+      console.log(colors.primary(`\nFound ${files.length} source file(s):\n`));
+      files.slice(0, 20).forEach(f => console.log(colors.muted(`  ${f}`)));
       
       if (files.length > 20) {
-        console.log(chalk.gray(`  ... and ${files.length - 20} more`));
+        console.log(colors.muted(`  ... and ${files.length - 20} more`));
       }
       console.log();
     } catch (error) {
@@ -557,9 +710,9 @@ class CodeAssistant {
    * Prompt user to trust workspace
    */
   private async promptWorkspaceTrust(workspacePath: string): Promise<boolean> {
-    console.log(chalk.yellow('\n─'.repeat(90)));
-    console.log(chalk.bold.yellow('\nDo you trust the files in this folder?\n'));
-    console.log(chalk.gray(workspacePath));
+    console.log('\n' + createDivider(90));
+    console.log(colors.warning.bold('\nDo you trust the files in this folder?\n'));
+    console.log(colors.muted(workspacePath));
     console.log(chalk.dim('\nMegaCLI Code Assistant may read, write, or execute files in this directory.'));
     console.log(chalk.dim('This can pose security risks, so only use files from trusted sources.\n'));
     console.log(chalk.dim('Learn more: https://github.com/YashSensei/megacli#security'));
@@ -577,7 +730,7 @@ class CodeAssistant {
       },
     ]);
 
-    console.log(chalk.yellow('─'.repeat(90)));
+    console.log(createDivider(90));
     return answer.trust === 'yes';
   }
 
@@ -585,22 +738,16 @@ class CodeAssistant {
    * Show welcome message
    */
   private async showWelcome(): Promise<void> {
-    const box = boxen(
-      chalk.bold('🤖 Code Assistant Mode\n\n') +
-      chalk.gray('I can help you:') +
+    const box = createBox(
+      chalk.bold(withIcon('🤖', 'Code Assistant Mode\n\n')) +
+      colors.muted('I can help you:') +
       '\n  • Read and analyze your code' +
       '\n  • Execute shell commands' +
       '\n  • Suggest improvements' +
       '\n  • Write new features' +
       '\n  • Refactor existing code' +
       '\n\n' +
-      chalk.gray('Type /help for commands'),
-      {
-        padding: 1,
-        margin: 1,
-        borderStyle: 'round',
-        borderColor: 'cyan',
-      }
+      colors.muted('Type /help for commands')
     );
     console.log(box);
   }
@@ -609,24 +756,17 @@ class CodeAssistant {
    * Show help
    */
   private showHelp(): void {
-    const help = `
-${chalk.bold('Available Commands:')}
-
-  ${chalk.cyan('/read <file>')}     Read a file and show its contents
-  ${chalk.cyan('/search <text>')}   Search for text across source files
-  ${chalk.cyan('/tree')}            Show project file tree
-  ${chalk.cyan('/files')}           List all source files
-  ${chalk.cyan('/reset')}           Reset conversation history
-  ${chalk.cyan('/clear')}           Clear the screen
-  ${chalk.cyan('/help')}            Show this help
-  ${chalk.cyan('/exit')}            Exit code assistant
+    console.log(`\n${chalk.bold('Available Commands:')}\n`);
+    this.commands.showHelp();
 
+    const help = `
 ${chalk.bold('AI Capabilities:')}
-  ${chalk.gray('• Executes shell commands automatically when needed')}
-  ${chalk.gray('• Reads and analyzes your code')}
-  ${chalk.gray('• Provides concise, actionable suggestions')}
+  ${colors.muted('• Executes shell commands automatically when needed')}
+  ${colors.muted('• Reads and analyzes your code')}
+  ${colors.muted('• Provides concise, actionable suggestions')}
 
-${chalk.gray('Just describe what you want to do in natural language!')}
+${colors.muted('Just describe what you want to do in natural language!')}
+${colors.muted('End a line with \\ to continue it, or type """ to paste a multiline block.')}
 `;
     console.log(help);
   }
@@ -636,9 +776,12 @@ ${chalk.gray('Just describe what you want to do in natural language!')}
 export const codeCommand = new Command('code')
   .description('AI-powered coding assistant')
   .option('-t, --task <task>', 'Execute a specific coding task')
-  .action(async (options) => {
+  .option('--raw', 'Print replies as raw Markdown (useful when piping)')
+  .action(async (options: CodeOptions) => {
+    await ensureAuthenticated();
+
     try {
-      const assistant = new CodeAssistant();
+      const assistant = new CodeAssistant(options);
 
       if (options.task) {
         await assistant.executeTask(options.task);
@@ -646,7 +789,10 @@ export const codeCommand = new Command('code')
         await assistant.startInteractive();
       }
     } catch (error) {
-      console.log(chalk.red(`✗ ${(error as Error).message}`));
+      if (error instanceof OpenAI.APIError) {
+        exitWithAPIError(toAPIError(error), false);
+      }
+      showError((error as Error).message);
       process.exit(1);
     }
   });
@@ -0,0 +1,280 @@
+import { Command } from 'commander';
+import OpenAI from 'openai';
+import { configManager, ensureAuthenticated } from '../lib/config.js';
+import { createClient } from '../lib/api-client.js';
+import { modelRegistry, getModelDisplayName, calculateCost } from '../lib/models.js';
+import { usageLedger, formatCost } from '../lib/usage.js';
+import { validateParams } from '../lib/params.js';
+import { estimateTokens, estimateMessageTokens } from '../lib/tokens.js';
+import { EXIT_CODES, createError, toAPIError, exitWithAPIError } from '../lib/errors.js';
+import { colors, output, symbol, createBox, createTable, createSpinner, renderMarkdown } from '../lib/ui.js';
+import type { APIError, ChatMessage } from '../types/index.js';
+
+type Layout = 'columns' | 'stacked';
+
+interface CompareOptions {
+  models: string;
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  layout?: string;
+  raw?: boolean;
+}
+
+interface CompareResult {
+  model: string;
+  modelName: string;
+  content: string;
+  latencyMs: number;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    // Counted locally because the API did not report usage
+    estimated: boolean;
+  } | null;
+  cost: number | null;
+  error?: string;
+  // Kind of failure, when there was one (see EXIT_CODES)
+  errorType?: APIError['type'];
+}
+
+// Columns stop being readable beyond this many models
+const MAX_COLUMNS = 3;
+
+// Send the messages to one model and time the reply
+async function runModel(
+  client: OpenAI,
+  modelId: string,
+  messages: ChatMessage[],
+  options: { temperature: number; maxTokens: number }
+): Promise<CompareResult> {
+  const started = Date.now();
+  const result: CompareResult = {
+    model: modelId,
+    modelName: getModelDisplayName(modelId),
+    content: '',
+    latencyMs: 0,
+    usage: null,
+    cost: null,
+  };
+
+  try {
+    const response = await client.chat.completions.create({
+      model: modelId,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+    });
+
+    result.latencyMs = Date.now() - started;
+    result.content = response.choices[0]?.message.content || '';
+
+    // Estimate tokens when the API did not report usage
+    const usage = response.usage;
+    const promptTokens = usage?.prompt_tokens ?? estimateMessageTokens(messages);
+    const completionTokens = usage?.completion_tokens ?? estimateTokens(result.content);
+    result.usage = {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage?.total_tokens ?? promptTokens + completionTokens,
+      estimated: !usage,
+    };
+    result.cost = calculateCost(modelId, promptTokens, completionTokens) ?? null;
+
+    void usageLedger.record({
+      command: 'compare',
+      model: modelId,
+      promptTokens,
+      completionTokens,
+      estimated: !usage,
+    });
+  } catch (error) {
+    result.latencyMs = Date.now() - started;
+    const apiError = toAPIError(error);
+    result.error = apiError.message;
+    result.errorType = apiError.type;
+  }
+
+  return result;
+}
+
+// Helper: One-line stats for a result
+function formatStats(result: CompareResult): string {
+  const parts = [`${(result.latencyMs / 1000).toFixed(1)}s`];
+  if (result.usage) {
+    const prefix = result.usage.estimated ? '~' : '';
+    parts.push(`${prefix}${result.usage.promptTokens.toLocaleString()} in`);
+    parts.push(`${prefix}${result.usage.completionTokens.toLocaleString()} out`);
+  }
+  if (result.cost !== null) {
+    parts.push(formatCost(result.cost));
+  }
+  return parts.join(' · ');
+}
+
+// Helper: Format a reply (or its error) for display
+function formatContent(result: CompareResult, raw: boolean): string {
+  if (result.error) {
+    return colors.error(`${symbol('error')} ${result.error}`);
+  }
+  return raw ? result.content : renderMarkdown(result.content);
+}
+
+// Show results side by side
+function showColumns(results: CompareResult[], raw: boolean) {
+  const terminalWidth = process.stdout.columns || 120;
+  // Each column loses 3 characters to borders and padding
+  const columnWidth = Math.max(20, Math.floor((terminalWidth - 1) / results.length) - 3);
+
+  const table = createTable({
+    head: results.map((r) => colors.primary.bold(r.modelName)),
+    colWidths: results.map(() => columnWidth),
+    wordWrap: true,
+  });
+
+  table.push(results.map((r) => formatContent(r, raw)));
+  table.push(results.map((r) => colors.muted(formatStats(r))));
+
+  console.log(table.toString());
+}
+
+// Show results one after another
+function showStacked(results: CompareResult[], raw: boolean) {
+  results.forEach((result) => {
+    console.log();
+    const heading = output.plain ? result.modelName : `━━ ${result.modelName}`;
+    console.log(colors.primary.bold(heading), colors.muted(formatStats(result)));
+    console.log();
+    console.log(formatContent(result, raw));
+  });
+  console.log();
+}
+
+// Compare command - send one prompt to several models concurrently
+async function compareCommand(prompt: string, options: CompareOptions, command: Command) {
+  // --json is a global option, parsed by the program rather than this command
+  const json = Boolean(command.optsWithGlobals()['json']);
+
+  await ensureAuthenticated(json);
+
+  // Resolve models (IDs or aliases), dropping duplicates
+  const modelIds: string[] = [];
+  for (const name of options.models.split(',').map((m) => m.trim()).filter(Boolean)) {
+    const model = modelRegistry.getModel(name);
+    if (!model) {
+      exitWithAPIError(
+        createError('validation', 'model_not_found', `Model not found: ${name}`, { model: name }),
+        json,
+        'Use "megacli models list" to see available models'
+      );
+    }
+    if (!modelIds.includes(model.id)) {
+      modelIds.push(model.id);
+    }
+  }
+
+  if (modelIds.length < 2) {
+    exitWithAPIError(
+      createError('validation', 'too_few_models', 'Need at least two models to compare'),
+      json,
+      'Example: megacli compare -m sonnet,gpt-5 "prompt"'
+    );
+  }
+
+  // Validate temperature and max tokens
+  try {
+    validateParams({ temperature: options.temperature, maxTokens: options.maxTokens });
+  } catch (error) {
+    exitWithAPIError(createError('validation', 'invalid_parameter', (error as Error).message), json);
+  }
+
+  // Side-by-side columns are hard to follow with a screen reader, so plain mode stacks them
+  const fitsColumns = modelIds.length <= MAX_COLUMNS && !output.plain;
+  const layout = (options.layout || (fitsColumns ? 'columns' : 'stacked')) as Layout;
+  if (layout !== 'columns' && layout !== 'stacked') {
+    exitWithAPIError(
+      createError('validation', 'invalid_layout', `Invalid layout: ${options.layout}`),
+      json,
+      'Use "columns" or "stacked"'
+    );
+  }
+
+  const messages: ChatMessage[] = [];
+  if (options.system) {
+    messages.push({ role: 'system', content: options.system });
+  }
+  messages.push({ role: 'user', content: prompt });
+
+  const settings = {
+    temperature: options.temperature ?? configManager.get('temperature') ?? 0.7,
+    maxTokens: options.maxTokens ?? configManager.get('maxTokens') ?? 2048,
+  };
+
+  const client = createClient();
+
+  const spinner = json ? null : createSpinner(`Asking ${modelIds.length} models...`).start();
+  let finished = 0;
+
+  const results = await Promise.all(
+    modelIds.map(async (modelId) => {
+      const result = await runModel(client, modelId, messages, settings);
+      finished++;
+      if (spinner) {
+        spinner.text = `Asking ${modelIds.length} models... (${finished}/${modelIds.length} done)`;
+      }
+      return result;
+    })
+  );
+
+  spinner?.stop();
+
+  if (json) {
+    console.log(
+      JSON.stringify(
+        {
+          prompt,
+          system: options.system ?? null,
+          temperature: settings.temperature,
+          maxTokens: settings.maxTokens,
+          timestamp: new Date().toISOString(),
+          results: results.map((r) => ({ ...r, error: r.error ?? null, errorType: r.errorType ?? null })),
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    console.log(createBox(prompt.length > 60 ? `${prompt.substring(0, 57)}...` : prompt, 'Compare'));
+    if (layout === 'columns') {
+      showColumns(results, options.raw ?? false);
+    } else {
+      showStacked(results, options.raw ?? false);
+    }
+  }
+
+  // Every model failed: exit with the code for the first failure
+  const failure = results.every((r) => r.error) ? results[0]?.errorType : undefined;
+  if (failure) {
+    process.exit(EXIT_CODES[failure]);
+  }
+}
+
+// Create and export the compare command
+export function createCompareCommand(): Command {
+  const compareCmd = new Command('compare');
+
+  compareCmd
+    .description('Send one prompt to several models and compare the answers')
+    .argument('<prompt>', 'Prompt to send to every model')
+    .requiredOption('-m, --models <models>', 'Comma-separated model IDs or aliases')
+    .option('-s, --system <prompt>', 'System prompt')
+    .option('-t, --temperature <number>', 'Temperature (0-2)', parseFloat)
+    .option('--max-tokens <number>', 'Maximum tokens in each response', parseInt)
+    .option('--layout <layout>', 'Show answers as "columns" or "stacked"')
+    .option('--raw', 'Print answers as raw Markdown')
+    .addHelpText('after', '\nUse the global --json flag to print the results as JSON.')
+    .action(compareCommand);
+
+  return compareCmd;
+}
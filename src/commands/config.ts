@@ -0,0 +1,365 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import fs from 'fs';
+import { spawnSync } from 'child_process';
+import { configManager, maskApiKey, PROFILE_KEYS, type SettingOrigin } from '../lib/config.js';
+import { EXIT_CODES, createError, exitWithAPIError } from '../lib/errors.js';
+import { describeProxy } from '../lib/network.js';
+import { confirmDeletion } from '../lib/input.js';
+import {
+  SETTING_SPECS,
+  SETTING_KEYS,
+  resolveSettingKey,
+  parseSetting,
+  type SettingKey,
+} from '../lib/settings.js';
+import { colors, withIcon, createBox, showSuccess, showError, showInfo, printJson } from '../lib/ui.js';
+
+// Helper: A setting as stored, with secrets (and proxy passwords) masked
+function displayValue(key: SettingKey, value: unknown): unknown {
+  if (value !== undefined && SETTING_SPECS[key].secret) {
+    return maskApiKey(String(value));
+  }
+  if (key === 'proxy' && typeof value === 'string') {
+    return describeProxy(value);
+  }
+  return value;
+}
+
+// Helper: Format a value for text output (lists and objects as JSON)
+function formatValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Helper: " in profile <name>" when a change goes to the active profile
+function profileSuffix(key: SettingKey): string {
+  const profile = configManager.getActiveProfile();
+  return profile && (PROFILE_KEYS as readonly string[]).includes(key) ? ` in profile ${profile.name}` : '';
+}
+
+// Helper: Describe where a setting's value comes from
+function formatOrigin(origin: SettingOrigin | undefined): string {
+  switch (origin?.source) {
+    case 'flag':
+      return 'command line';
+    case 'env':
+    case 'project':
+      return origin.detail!;
+    case 'profile':
+      return `profile ${origin.detail}`;
+    case 'config':
+      return 'config file';
+    case 'default':
+      return 'default';
+    default:
+      return '';
+  }
+}
+
+// Helper: Warn when a value just changed is overridden here by the environment or
+// the project config file
+function showOverride(key: SettingKey): void {
+  const origin = configManager.getOrigin(key);
+  if (origin?.source === 'project' && key === 'allowedCommands') {
+    showInfo(`${origin.detail} narrows allowedCommands here to the commands in both lists`);
+  } else if (origin?.source === 'env' || origin?.source === 'project') {
+    showInfo(`${origin.detail} sets ${key}, which takes precedence here`);
+  }
+}
+
+// Helper: Resolve a key given on the command line, or exit
+function requireKey(name: string, json: boolean): SettingKey {
+  const key = resolveSettingKey(name);
+  if (!key) {
+    exitWithAPIError(
+      createError('validation', 'unknown_setting', `Unknown setting: ${name}`, { key: name }),
+      json,
+      `Settings: ${SETTING_KEYS.join(', ')}`
+    );
+  }
+  return key;
+}
+
+// List all settings, as they apply in the current folder
+function listConfig(options: { showOrigin?: boolean }, command: Command) {
+  const stored = configManager.getAll();
+
+  const profile = configManager.getActiveProfile();
+  const project = configManager.getProjectConfig();
+
+  if (command.optsWithGlobals()['json']) {
+    const settings = Object.fromEntries(
+      SETTING_KEYS.map((key) => [key, displayValue(key, stored[key]) ?? null])
+    );
+    const origins = Object.fromEntries(SETTING_KEYS.map((key) => [key, configManager.getOrigin(key) ?? null]));
+    printJson({
+      path: configManager.getConfigPath(),
+      projectPath: project?.path ?? null,
+      profile: profile?.name ?? null,
+      settings,
+      ...(options.showOrigin && { origins }),
+    });
+    return;
+  }
+
+  const location = [
+    configManager.getConfigPath(),
+    ...(project ? [`Project: ${project.path}`] : []),
+    ...(profile ? [`Profile: ${profile.name}`] : []),
+  ].join('\n');
+  console.log(createBox(location, 'MegaCLI Config'));
+
+  const width = Math.max(...SETTING_KEYS.map((key) => key.length)) + 2;
+  const rows = SETTING_KEYS.map((key) => {
+    const value = displayValue(key, stored[key]);
+    return { key, shown: value === undefined ? '(not set)' : formatValue(value) };
+  });
+  const valueWidth = Math.min(Math.max(...rows.map((row) => row.shown.length)) + 2, 50);
+  for (const { key, shown } of rows) {
+    const value = shown === '(not set)' ? colors.muted(shown) : colors.primary(shown);
+    const origin = options.showOrigin ? formatOrigin(configManager.getOrigin(key)) : '';
+    if (origin) {
+      const padding = ' '.repeat(Math.max(valueWidth - shown.length, 2));
+      console.log(`${key.padEnd(width)}${value}${padding}${colors.muted(origin)}`);
+    } else {
+      console.log(`${key.padEnd(width)}${value}`);
+    }
+  }
+
+  console.log(`\n${colors.muted(withIcon('💡', 'Tip: Use'))} megacli config set <key> <value> ${colors.muted('to change a setting')}`);
+}
+
+// Print one setting as it applies here. Text output is the bare value, for use in scripts.
+function getConfig(name: string, _options: object, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const key = requireKey(name, json);
+  const value = displayValue(key, configManager.getAll()[key]);
+
+  if (json) {
+    printJson({ key, value: value ?? null });
+    return;
+  }
+
+  if (value !== undefined) {
+    console.log(formatValue(value));
+  }
+}
+
+// Change one setting
+function setConfig(name: string, raw: string, _options: object, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const key = requireKey(name, json);
+
+  let value: unknown;
+  try {
+    value = parseSetting(key, raw);
+  } catch (error) {
+    exitWithAPIError(
+      createError('validation', 'invalid_value', `Invalid value for ${key}: ${(error as Error).message}`, {
+        key,
+        expected: SETTING_SPECS[key].values,
+      }),
+      json,
+      `Expected ${SETTING_SPECS[key].values}`
+    );
+  }
+
+  configManager.set(key, value as never);
+
+  if (json) {
+    printJson({ key, value: displayValue(key, value) });
+    return;
+  }
+  showSuccess(`Set ${key} to ${formatValue(displayValue(key, value))}${profileSuffix(key)}`);
+  showOverride(key);
+}
+
+// Remove one setting
+function unsetConfig(name: string, _options: object, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const key = requireKey(name, json);
+
+  const suffix = profileSuffix(key);
+  configManager.unset(key);
+
+  if (json) {
+    printJson({ key, value: displayValue(key, configManager.get(key)) ?? null });
+    return;
+  }
+  if (suffix) {
+    showSuccess(`Unset ${key}${suffix}; the main config's value applies`);
+  } else {
+    const fallback = configManager.getDefault(key);
+    showSuccess(
+      fallback === undefined ? `Unset ${key}` : `Reset ${key} to its default (${formatValue(fallback)})`
+    );
+  }
+  showOverride(key);
+}
+
+// Restore every default. This also removes the saved API key.
+async function resetConfig(options: { yes?: boolean }, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const profiles = Object.keys(configManager.getProfiles());
+  const kept = profiles.length > 0 ? ` Profiles are kept: ${profiles.join(', ')}.` : '';
+  const question = `Reset all settings in the main config to their defaults? This also removes the API key saved there.${kept}`;
+  if (!(await confirmDeletion('the main config settings', { yes: options.yes, json }, question))) {
+    return;
+  }
+
+  configManager.reset();
+
+  if (json) {
+    printJson({ reset: true, profiles });
+    return;
+  }
+  showSuccess('Settings reset to defaults');
+  showInfo('Run "megacli auth login" to set up your API key again');
+}
+
+// Print the config file path
+function configPath() {
+  console.log(configManager.getConfigPath());
+}
+
+// Check the config file and report every problem
+function validateConfig(_options: object, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+
+  let result: { valid: boolean; errors: string[] };
+  try {
+    result = configManager.validate();
+  } catch (error) {
+    // conf throws when the file is not valid JSON
+    result = { valid: false, errors: [(error as Error).message] };
+  }
+
+  if (json) {
+    printJson(result);
+  } else if (result.valid) {
+    showSuccess('Configuration is valid');
+  } else {
+    showError('Configuration has problems:');
+    result.errors.forEach((error) => console.log(colors.muted(`  • ${error}`)));
+    console.log();
+    console.log(colors.muted('Fix them with'), colors.primary('megacli config set'), colors.muted('or'), colors.primary('megacli config edit'));
+  }
+
+  if (!result.valid) {
+    process.exit(EXIT_CODES.validation);
+  }
+}
+
+// Open the config file in $VISUAL / $EDITOR, then check it
+async function editConfig(_options: object, command: Command) {
+  const editor =
+    process.env['VISUAL'] || process.env['EDITOR'] || (process.platform === 'win32' ? 'notepad' : 'vi');
+  const configFile = configManager.getConfigPath();
+  const original = fs.readFileSync(configFile, 'utf-8');
+
+  while (true) {
+    // Run through the shell so editors with arguments (e.g. "code --wait") work
+    const result = spawnSync(`${editor} "${configFile}"`, { stdio: 'inherit', shell: true });
+    if (result.error || result.status !== 0) {
+      showError(`Could not run editor: ${editor}`, result.error?.message ?? `Exited with status ${result.status}`);
+      process.exit(1);
+    }
+
+    // A file that is not JSON would stop every command from starting, so never keep one
+    try {
+      JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+      break;
+    } catch (error) {
+      showError('The config file is not valid JSON', (error as Error).message);
+      const answers = await inquirer.prompt([
+        { type: 'confirm', name: 'retry', message: 'Edit it again? (No restores the previous version)', default: true },
+      ]);
+      if (!answers.retry) {
+        fs.writeFileSync(configFile, original, 'utf-8');
+        showInfo('Config file restored');
+        return;
+      }
+    }
+  }
+
+  validateConfig({}, command);
+}
+
+// Create and export the config command
+export function createConfigCommand(): Command {
+  const configCmd = new Command('config');
+
+  configCmd
+    .description('View and change settings')
+    .addHelpText(
+      'after',
+      `
+Settings:
+${SETTING_KEYS.map((key) => `  ${key.padEnd(19)}${SETTING_SPECS[key].description} (${SETTING_SPECS[key].values})`).join('\n')}
+
+Examples:
+  $ megacli config set defaultModel sonnet
+  $ megacli config set streaming false
+  $ megacli config get temperature
+  $ megacli config list --show-origin
+
+A .megacli.json (or megacli.config.json) in the current folder or a parent
+folder overrides the model, parameter and ignore settings for that project. It
+can only narrow allowedCommands, and its system prompt and macros apply once
+its folder is in trustedWorkspaces. MEGALLM_API_KEY overrides the saved key.
+
+Use the global --json flag for machine-readable output.`
+    );
+
+  // List subcommand
+  configCmd
+    .command('list')
+    .description('Show all settings')
+    .option('--show-origin', 'Show where each value comes from')
+    .action(listConfig);
+
+  // Get subcommand
+  configCmd
+    .command('get <key>')
+    .description('Print one setting')
+    .action(getConfig);
+
+  // Set subcommand
+  configCmd
+    .command('set <key> <value>')
+    .description('Change a setting')
+    .action(setConfig);
+
+  // Unset subcommand
+  configCmd
+    .command('unset <key>')
+    .description('Remove a setting (settings with a default go back to it)')
+    .action(unsetConfig);
+
+  // Reset subcommand
+  configCmd
+    .command('reset')
+    .description('Reset the main config to its defaults (profiles are kept)')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(resetConfig);
+
+  // Path subcommand
+  configCmd
+    .command('path')
+    .description('Print the config file path')
+    .action(configPath);
+
+  // Edit subcommand
+  configCmd
+    .command('edit')
+    .description('Open the config file in $EDITOR')
+    .action(editConfig);
+
+  // Validate subcommand
+  configCmd
+    .command('validate')
+    .description('Check the config file for invalid settings')
+    .action(validateConfig);
+
+  return configCmd;
+}
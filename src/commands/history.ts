@@ -0,0 +1,216 @@
+import { Command } from 'commander';
+import fs from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import { historyManager } from '../lib/history.js';
+import { getModelDisplayName } from '../lib/models.js';
+import { createError, exitWithAPIError, exitWithFileError } from '../lib/errors.js';
+import { confirmDeletion } from '../lib/input.js';
+import {
+  EXPORT_FORMATS,
+  exportSession,
+  formatFromPath,
+  isExportFormat,
+} from '../lib/export.js';
+import { colors, withIcon, createBox, createDivider, showInfo, showSuccess, printJson } from '../lib/ui.js';
+import type { ChatMessage, ChatSessionRecord } from '../types/index.js';
+
+// Helper: Load a session, exiting with an error if the ID matches none or several
+async function requireSession(id: string, json: boolean): Promise<ChatSessionRecord> {
+  try {
+    return await historyManager.load(id);
+  } catch (error) {
+    exitWithAPIError(
+      createError('validation', 'session_not_found', (error as Error).message, { id }),
+      json,
+      'Use "megacli history list" to see saved sessions'
+    );
+  }
+}
+
+// List saved sessions
+async function listSessions(options: { limit?: number }, command: Command) {
+  const sessions = await historyManager.list();
+  const shown = options.limit ? sessions.slice(0, options.limit) : sessions;
+
+  if (command.optsWithGlobals()['json']) {
+    printJson({
+      total: sessions.length,
+      sessions: shown.map((session) => ({
+        id: session.id,
+        title: session.title,
+        model: session.model,
+        messages: session.messages.filter((m) => m.role !== 'system').length,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+      })),
+    });
+    return;
+  }
+
+  if (sessions.length === 0) {
+    showInfo('No saved sessions yet');
+    console.log(colors.muted('Conversations from'), colors.primary('megacli chat'), colors.muted('are saved automatically'));
+    return;
+  }
+
+  console.log(createBox(`${sessions.length} Saved Session(s)`, 'Chat History'));
+  console.log(
+    `${colors.muted('ID'.padEnd(10))} ${colors.muted('Updated'.padEnd(24))} ${colors.muted('Model'.padEnd(28))} ${colors.muted('Msgs'.padEnd(5))} ${colors.muted('Title')}`
+  );
+  console.log(createDivider(90));
+
+  shown.forEach((session) => {
+    const messageCount = session.messages.filter((m) => m.role !== 'system').length;
+    const updated = new Date(session.updatedAt).toLocaleString();
+    console.log(
+      `${colors.primary(session.id.padEnd(10))} ${updated.padEnd(24)} ${session.model.padEnd(28)} ${messageCount.toString().padEnd(5)} ${session.title}`
+    );
+  });
+
+  if (shown.length < sessions.length) {
+    console.log(colors.muted(`\n... and ${sessions.length - shown.length} more`));
+  }
+
+  console.log(`\n${colors.muted(withIcon('💡', 'Tip: Use'))} megacli chat --resume <id> ${colors.muted('to continue a session')}`);
+}
+
+// Show a saved session
+async function showSession(id: string, _options: object, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const session = await requireSession(id, json);
+
+  if (json) {
+    printJson({ session });
+    return;
+  }
+
+  console.log(createBox(session.title, `Session ${session.id}`));
+  console.log(colors.muted('Model:'), colors.primary(getModelDisplayName(session.model)));
+  console.log(colors.muted('Temperature:'), session.temperature);
+  console.log(colors.muted('Max Tokens:'), session.maxTokens);
+  console.log(colors.muted('Created:'), new Date(session.createdAt).toLocaleString());
+  console.log(colors.muted('Updated:'), new Date(session.updatedAt).toLocaleString());
+  console.log(colors.muted('Tokens Used:'), session.tokenUsage.total);
+
+  session.messages.forEach((message) => {
+    console.log();
+    console.log(formatRole(message));
+    console.log(message.content);
+  });
+  console.log();
+}
+
+// Delete a saved session
+async function deleteSession(id: string, options: { yes?: boolean }, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const session = await requireSession(id, json);
+
+  const question = `Delete session ${session.id} (${session.title})?`;
+  if (!(await confirmDeletion(`session ${session.id}`, { yes: options.yes, json }, question))) {
+    return;
+  }
+
+  try {
+    await historyManager.delete(session.id);
+  } catch (error) {
+    exitWithFileError(`Could not delete session ${session.id}`, error, json);
+  }
+
+  if (json) {
+    printJson({ deleted: session.id });
+    return;
+  }
+  showSuccess(`Deleted session ${session.id}`);
+}
+
+// Export a saved session to stdout or a file
+async function exportSessionCommand(id: string, options: { format?: string; output?: string }, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const format = options.format || (options.output && formatFromPath(options.output)) || 'md';
+  if (!isExportFormat(format)) {
+    exitWithAPIError(
+      createError('validation', 'invalid_format', `Unsupported format: ${format}`),
+      json,
+      `Supported formats: ${EXPORT_FORMATS.join(', ')}`
+    );
+  }
+
+  const session = await requireSession(id, json);
+  const content = exportSession(session, format);
+
+  if (!options.output) {
+    if (json) {
+      printJson({ id: session.id, format, content });
+    } else {
+      process.stdout.write(content);
+    }
+    return;
+  }
+
+  const outputPath = path.resolve(options.output);
+  try {
+    await fs.writeFile(outputPath, content, 'utf-8');
+  } catch (error) {
+    exitWithFileError(`Could not write ${outputPath}`, error, json);
+  }
+
+  if (json) {
+    printJson({ exported: session.id, format, path: outputPath });
+    return;
+  }
+  showSuccess(`Exported session ${session.id} to ${colors.primary(outputPath)}`);
+}
+
+// Helper: Format a message role label
+function formatRole(message: ChatMessage): string {
+  const truncated = message.truncated ? colors.warning(' [truncated]') : '';
+
+  switch (message.role) {
+    case 'system':
+      return colors.muted(withIcon('⚙️ ', 'System:')) + truncated;
+    case 'user':
+      return chalk.bold('You:') + truncated;
+    default:
+      return colors.primary(withIcon('🤖', 'Assistant:')) + truncated;
+  }
+}
+
+// Create and export the history command
+export function createHistoryCommand(): Command {
+  const historyCmd = new Command('history');
+
+  historyCmd
+    .description('Browse and manage saved chat sessions')
+    .addHelpText('after', '\nUse the global --json flag for machine-readable output.');
+
+  // List subcommand
+  historyCmd
+    .command('list')
+    .description('List saved chat sessions')
+    .option('-n, --limit <number>', 'Show only the most recent sessions', parseInt)
+    .action(listSessions);
+
+  // Show subcommand
+  historyCmd
+    .command('show <id>')
+    .description('Show a saved chat session')
+    .action(showSession);
+
+  // Delete subcommand
+  historyCmd
+    .command('delete <id>')
+    .description('Delete a saved chat session')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(deleteSession);
+
+  // Export subcommand
+  historyCmd
+    .command('export <id>')
+    .description('Export a chat session as Markdown, JSON or HTML')
+    .option('-f, --format <format>', `Output format (${EXPORT_FORMATS.join(', ')})`)
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .action(exportSessionCommand);
+
+  return historyCmd;
+}
@@ -1,10 +1,26 @@
 import { Command } from 'commander';
-import chalk from 'chalk';
 import { modelRegistry, type ModelData } from '../lib/models.js';
-import { colors, createBox, showError } from '../lib/ui.js';
+import { createError, exitWithAPIError } from '../lib/errors.js';
+import { colors, withIcon, createBox, createDivider, showError, printJson } from '../lib/ui.js';
+
+// Helper: A model as it appears in --json output. Unset fields are null so the
+// shape never changes.
+function toModelJSON(model: ModelData) {
+  return {
+    id: model.id,
+    name: model.name,
+    provider: model.provider,
+    category: model.category ?? null,
+    aliases: model.aliases,
+    contextLength: model.contextLength,
+    maxOutput: model.maxOutput,
+    pricing: model.pricing,
+    description: model.description ?? null,
+  };
+}
 
 // List all models
-function listModels(options: { provider?: string; category?: string }) {
+function listModels(options: { provider?: string; category?: string }, command: Command) {
   const allModels = modelRegistry.getAllModels();
   
   // Filter by provider
@@ -17,6 +33,11 @@ function listModels(options: { provider?: string; category?: string }) {
     models = models.filter((m) => m.category === options.category);
   }
 
+  if (command.optsWithGlobals()['json']) {
+    printJson({ models: models.map(toModelJSON) });
+    return;
+  }
+
   if (models.length === 0) {
     showError('No models found', 'Try different filters');
     return;
@@ -36,14 +57,15 @@ function listModels(options: { provider?: string; category?: string }) {
     if (categoryModels.length === 0) continue;
 
     const icon = getCategoryIcon(category as ModelData['category']);
-    console.log(`\n${icon} ${chalk.bold.cyan(category.toUpperCase())} ${colors.muted(`(${categoryModels.length})`)}`);
-    console.log(colors.muted('─'.repeat(80)));
+    const heading = withIcon(icon, colors.primary.bold(category.toUpperCase()));
+    console.log(`\n${heading} ${colors.muted(`(${categoryModels.length})`)}`);
+    console.log(createDivider(80));
 
     // Table header
     console.log(
       `${colors.muted('Model ID').padEnd(35)} ${colors.muted('Provider').padEnd(15)} ${colors.muted('Aliases')}`
     );
-    console.log(colors.muted('─'.repeat(80)));
+    console.log(createDivider(80));
 
     categoryModels.forEach((model) => {
       const id = colors.primary(model.id.padEnd(30));
@@ -54,17 +76,26 @@ function listModels(options: { provider?: string; category?: string }) {
     });
   }
 
-  console.log(`\n${colors.muted('💡 Tip: Use')} megacli models info <model-id> ${colors.muted('for detailed information')}`);
-  console.log(`${colors.muted('💡 Tip: Use')} megacli models search <query> ${colors.muted('to search models')}`);
+  console.log(`\n${colors.muted(withIcon('💡', 'Tip: Use'))} megacli models info <model-id> ${colors.muted('for detailed information')}`);
+  console.log(`${colors.muted(withIcon('💡', 'Tip: Use'))} megacli models search <query> ${colors.muted('to search models')}`);
 }
 
 // Show detailed model info
-function modelInfo(modelId: string) {
+function modelInfo(modelId: string, _options: object, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
   const model = modelRegistry.getModel(modelId);
 
   if (!model) {
-    showError(`Model not found: ${modelId}`, 'Use "megacli models list" to see available models');
-    process.exit(1);
+    exitWithAPIError(
+      createError('validation', 'model_not_found', `Model not found: ${modelId}`, { model: modelId }),
+      json,
+      'Use "megacli models list" to see available models'
+    );
+  }
+
+  if (json) {
+    printJson({ model: toModelJSON(model) });
+    return;
   }
 
   console.log(createBox(`${model.name}`, 'Model Information'));
@@ -74,6 +105,8 @@ function modelInfo(modelId: string) {
   console.log(`  ${colors.muted('Name:')} ${model.name}`);
   console.log(`  ${colors.muted('Provider:')} ${model.provider}`);
   console.log(`  ${colors.muted('Category:')} ${getCategoryLabel(model.category)}`);
+  console.log(`  ${colors.muted('Context Window:')} ${model.contextLength.toLocaleString()} tokens`);
+  console.log(`  ${colors.muted('Max Output:')} ${model.maxOutput.toLocaleString()} tokens`);
   
   if (model.aliases.length > 0) {
     console.log(`  ${colors.muted('Aliases:')} ${model.aliases.join(', ')}`);
@@ -96,9 +129,14 @@ function modelInfo(modelId: string) {
 }
 
 // Search models
-function searchModels(query: string) {
+function searchModels(query: string, _options: object, command: Command) {
   const results = modelRegistry.searchModels(query);
 
+  if (command.optsWithGlobals()['json']) {
+    printJson({ query, models: results.map(toModelJSON) });
+    return;
+  }
+
   if (results.length === 0) {
     showError(`No models found matching: "${query}"`, 'Try a different search term');
     return;
@@ -148,7 +186,7 @@ function getCategoryLabel(category?: ModelData['category']): string {
     case 'fast':
       return colors.warning('Fast');
     case 'specialized':
-      return chalk.magenta('Specialized');
+      return colors.highlight('Specialized');
     default:
       return 'Standard';
   }
@@ -158,7 +196,9 @@ function getCategoryLabel(category?: ModelData['category']): string {
 export function createModelsCommand(): Command {
   const modelsCmd = new Command('models');
 
-  modelsCmd.description('Manage and explore AI models');
+  modelsCmd
+    .description('Manage and explore AI models')
+    .addHelpText('after', '\nUse the global --json flag for machine-readable output.');
 
   // List subcommand
   modelsCmd
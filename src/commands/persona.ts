@@ -0,0 +1,151 @@
+import { Command } from 'commander';
+import { personaStore } from '../lib/personas.js';
+import { requireItem, prepareItem, readItemText, saveItem, removeItem, type AddItemOptions } from '../lib/store.js';
+import { getModelDisplayName } from '../lib/models.js';
+import { colors, withIcon, createBox, showInfo, showSuccess, printJson } from '../lib/ui.js';
+import type { Persona } from '../types/index.js';
+
+interface AddPersonaOptions extends AddItemOptions {
+  system?: string;
+}
+
+const LIST_HINT = 'Use "megacli persona list" to see your personas';
+
+// Add or replace a persona
+async function addPersona(name: string, options: AddPersonaOptions, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const { existing, modelId } = await prepareItem(personaStore, name, options, json);
+  const system = await readItemText(
+    'system prompt',
+    '--system',
+    { text: options.system, file: options.file, initial: existing?.system },
+    json
+  );
+
+  const now = new Date().toISOString();
+  const persona: Persona = {
+    name,
+    system,
+    ...(options.description && { description: options.description }),
+    ...(modelId && { model: modelId }),
+    ...(options.temperature !== undefined && { temperature: options.temperature }),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  await saveItem(personaStore, persona, json);
+
+  if (json) {
+    printJson({ persona });
+    return;
+  }
+
+  showSuccess(`${existing ? 'Updated' : 'Saved'} persona ${colors.primary(name)}`);
+  console.log(`${colors.muted(withIcon('💡', 'Tip: Use'))} megacli chat --persona ${name}`);
+}
+
+// List personas
+async function listPersonas(_options: object, command: Command) {
+  const personas = await personaStore.list();
+
+  if (command.optsWithGlobals()['json']) {
+    printJson({ personas });
+    return;
+  }
+
+  if (personas.length === 0) {
+    showInfo('No personas yet');
+    console.log(colors.muted('Add one with'), colors.primary('megacli persona add <name> --file prompt.md'));
+    return;
+  }
+
+  console.log(createBox(`${personas.length} Persona(s)`, 'Personas'));
+
+  personas.forEach((persona) => {
+    const description = persona.description ? ` ${colors.muted(`- ${persona.description}`)}` : '';
+    console.log(`${colors.primary(persona.name)}${description}`);
+    const details: string[] = [];
+    if (persona.model) details.push(`model: ${persona.model}`);
+    if (persona.temperature !== undefined) details.push(`temperature: ${persona.temperature}`);
+    details.push(`${persona.system.length.toLocaleString()} chars`);
+    console.log(colors.muted(`  ${details.join(' · ')}`));
+  });
+
+  console.log(`\n${colors.muted(withIcon('💡', 'Tip: Use'))} megacli chat --persona <name> ${colors.muted('or /persona <name> in chat')}`);
+}
+
+// Show a persona
+async function showPersona(name: string, _options: object, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const persona = await requireItem(personaStore, name, json, LIST_HINT);
+
+  if (json) {
+    printJson({ persona });
+    return;
+  }
+
+  console.log(createBox(persona.description || persona.name, `Persona ${persona.name}`));
+  if (persona.model) {
+    console.log(colors.muted('Model:'), colors.primary(getModelDisplayName(persona.model)));
+  }
+  if (persona.temperature !== undefined) {
+    console.log(colors.muted('Temperature:'), persona.temperature);
+  }
+  console.log(colors.muted('Updated:'), new Date(persona.updatedAt).toLocaleString());
+  console.log();
+  console.log(colors.muted(withIcon('⚙️ ', 'System:')));
+  console.log(persona.system);
+  console.log();
+}
+
+// Delete a persona
+async function removePersona(name: string, options: { yes?: boolean }, command: Command) {
+  await removeItem(personaStore, name, {
+    yes: options.yes,
+    json: Boolean(command.optsWithGlobals()['json']),
+    hint: LIST_HINT,
+  });
+}
+
+// Create and export the persona command
+export function createPersonaCommand(): Command {
+  const personaCmd = new Command('persona');
+
+  personaCmd
+    .description('Manage chat personas (named system prompts)')
+    .addHelpText('after', '\nUse the global --json flag for machine-readable output.');
+
+  // Add subcommand
+  personaCmd
+    .command('add <name>')
+    .description('Add a persona')
+    .option('-f, --file <path>', 'Read the system prompt from a file')
+    .option('-s, --system <prompt>', 'System prompt text')
+    .option('-d, --description <text>', 'Short description')
+    .option('-m, --model <model>', 'Default model (ID or alias)')
+    .option('-t, --temperature <number>', 'Default temperature (0-2)', parseFloat)
+    .option('--force', 'Replace an existing persona')
+    .addHelpText('after', '\nWithout --system or --file, the system prompt is written in $EDITOR (not with --json).')
+    .action(addPersona);
+
+  // List subcommand
+  personaCmd
+    .command('list')
+    .description('List personas')
+    .action(listPersonas);
+
+  // Show subcommand
+  personaCmd
+    .command('show <name>')
+    .description('Show a persona')
+    .action(showPersona);
+
+  // Remove subcommand
+  personaCmd
+    .command('rm <name>')
+    .description('Delete a persona')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(removePersona);
+
+  return personaCmd;
+}
@@ -0,0 +1,251 @@
+import { Command } from 'commander';
+import { configManager, maskApiKey, DEFAULT_PROFILE } from '../lib/config.js';
+import { createError, exitWithAPIError } from '../lib/errors.js';
+import { confirmDeletion } from '../lib/input.js';
+import { isValidName } from '../lib/store.js';
+import { parseSetting } from '../lib/settings.js';
+import { getModelDisplayName } from '../lib/models.js';
+import { colors, symbol, withIcon, createBox, createTable, showSuccess, showInfo, printJson } from '../lib/ui.js';
+import type { ProfileSettings } from '../types/index.js';
+
+interface AddProfileOptions {
+  key?: string;
+  baseUrl?: string;
+  model?: string;
+  temperature?: string;
+  maxTokens?: string;
+  stream?: boolean;
+  use?: boolean;
+  force?: boolean;
+}
+
+// Helper: A profile as it appears in --json output, with the key masked
+function toProfileJSON(name: string, settings: ProfileSettings, active: boolean) {
+  return {
+    name,
+    active,
+    apiKey: settings.apiKey ? maskApiKey(settings.apiKey) : null,
+    baseUrl: settings.baseUrl ?? null,
+    defaultModel: settings.defaultModel ?? null,
+    streaming: settings.streaming ?? null,
+    temperature: settings.temperature ?? null,
+    maxTokens: settings.maxTokens ?? null,
+  };
+}
+
+// Helper: Exit unless the profile exists
+function requireProfile(name: string, json: boolean): void {
+  if (!configManager.hasProfile(name)) {
+    exitWithAPIError(
+      createError('validation', 'profile_not_found', `Profile not found: ${name}`, { profile: name }),
+      json,
+      'Use "megacli profile list" to see your profiles'
+    );
+  }
+}
+
+// Add or replace a profile
+function addProfile(name: string, options: AddProfileOptions, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+
+  if (!isValidName(name) || name === DEFAULT_PROFILE) {
+    exitWithAPIError(
+      createError('validation', 'invalid_profile_name', `Invalid profile name: ${name}`),
+      json,
+      `Use letters, numbers, - and _ ("${DEFAULT_PROFILE}" is the main config)`
+    );
+  }
+
+  if (name in configManager.getProfiles() && !options.force) {
+    exitWithAPIError(
+      createError('validation', 'profile_exists', `Profile already exists: ${name}`),
+      json,
+      'Use --force to replace it'
+    );
+  }
+
+  // Check every value the same way "megacli config set" does
+  const given = {
+    apiKey: options.key,
+    baseUrl: options.baseUrl,
+    defaultModel: options.model,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+    streaming: options.stream === undefined ? undefined : String(options.stream),
+  };
+  const settings: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(given)) {
+    if (raw === undefined) continue;
+    try {
+      settings[key] = parseSetting(key as keyof typeof given, raw);
+    } catch (error) {
+      exitWithAPIError(
+        createError('validation', 'invalid_value', `Invalid value for ${key}: ${(error as Error).message}`, { key }),
+        json
+      );
+    }
+  }
+
+  configManager.saveProfile(name, settings as ProfileSettings);
+  if (options.use) {
+    configManager.setActiveProfile(name);
+  }
+
+  if (json) {
+    printJson({ profile: toProfileJSON(name, settings as ProfileSettings, Boolean(options.use)) });
+    return;
+  }
+
+  showSuccess(`Saved profile ${name}`);
+  if (!settings['apiKey']) {
+    showInfo(`Add its API key with: megacli auth login --profile ${name}`);
+  }
+  if (!options.use) {
+    console.log(`${colors.muted(withIcon('💡', 'Tip: Use'))} megacli profile use ${name} ${colors.muted('to switch to it')}`);
+  }
+}
+
+// Switch the saved active profile
+function useProfile(name: string, _options: object, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  requireProfile(name, json);
+
+  configManager.setActiveProfile(name);
+
+  if (json) {
+    printJson({ activeProfile: name });
+    return;
+  }
+  showSuccess(name === DEFAULT_PROFILE ? 'Using the main config (no profile)' : `Using profile ${name}`);
+
+  // The saved choice is overridden for this shell
+  const envProfile = process.env['MEGACLI_PROFILE'];
+  if (envProfile && envProfile !== name) {
+    showInfo(`MEGACLI_PROFILE=${envProfile} is set and takes precedence in this shell`);
+  }
+}
+
+// List profiles
+function listProfiles(_options: object, command: Command) {
+  const profiles = configManager.getProfiles();
+  const activeName = configManager.getActiveProfile()?.name ?? DEFAULT_PROFILE;
+
+  if (command.optsWithGlobals()['json']) {
+    printJson({
+      activeProfile: activeName,
+      profiles: Object.entries(profiles).map(([name, settings]) =>
+        toProfileJSON(name, settings, name === activeName)
+      ),
+    });
+    return;
+  }
+
+  const names = Object.keys(profiles);
+  console.log(createBox(`${names.length} Profile(s)`, 'Profiles'));
+
+  const table = createTable({
+    head: ['', 'Profile', 'API Key', 'Base URL', 'Default Model'],
+  });
+  // The main config is always available as "default"
+  table.push([
+    activeName === DEFAULT_PROFILE ? colors.success(symbol('current')) : '',
+    DEFAULT_PROFILE,
+    colors.muted('(main config)'),
+    '',
+    '',
+  ]);
+  for (const [name, settings] of Object.entries(profiles)) {
+    table.push([
+      name === activeName ? colors.success(symbol('current')) : '',
+      colors.primary(name),
+      settings.apiKey ? maskApiKey(settings.apiKey) : colors.muted('-'),
+      settings.baseUrl ?? colors.muted('-'),
+      settings.defaultModel ? getModelDisplayName(settings.defaultModel) : colors.muted('-'),
+    ]);
+  }
+  console.log(table.toString());
+
+  console.log(colors.muted('\nSettings a profile leaves out ("-") come from the main config.'));
+  console.log(`${colors.muted(withIcon('💡', 'Tip: Use'))} megacli profile use <name> ${colors.muted('or')} --profile <name> ${colors.muted('for one command')}`);
+}
+
+// Delete a profile
+async function removeProfile(name: string, options: { yes?: boolean }, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  if (name === DEFAULT_PROFILE) {
+    exitWithAPIError(
+      createError('validation', 'invalid_profile_name', 'The default profile cannot be deleted'),
+      json,
+      'Use "megacli config reset" to reset the main config'
+    );
+  }
+  requireProfile(name, json);
+
+  if (!(await confirmDeletion(`profile ${name}`, { yes: options.yes, json }, `Delete profile ${name} and its API key?`))) {
+    return;
+  }
+
+  configManager.deleteProfile(name);
+
+  if (json) {
+    printJson({ deleted: name });
+    return;
+  }
+  showSuccess(`Deleted profile ${name}`);
+}
+
+// Create and export the profile command
+export function createProfileCommand(): Command {
+  const profileCmd = new Command('profile');
+
+  profileCmd
+    .description('Manage profiles (separate API keys, base URLs and defaults)')
+    .addHelpText(
+      'after',
+      `
+The active profile is chosen by --profile, then MEGACLI_PROFILE, then "megacli profile use".
+"${DEFAULT_PROFILE}" is the main config. Commands that change settings (auth login,
+config set) write to the active profile.
+
+Examples:
+  $ megacli profile add team --key sk-mega-... --model sonnet
+  $ megacli profile add staging --base-url http://localhost:8080/v1 --use
+  $ megacli --profile team chat`
+    );
+
+  // Add subcommand
+  profileCmd
+    .command('add <name>')
+    .description('Add a profile')
+    .option('-k, --key <key>', 'API key')
+    .option('--base-url <url>', 'API endpoint')
+    .option('-m, --model <model>', 'Default model (ID or alias)')
+    .option('-t, --temperature <number>', 'Default temperature (0-2)')
+    .option('--max-tokens <number>', 'Default maximum tokens in a reply')
+    .option('--stream', 'Stream replies')
+    .option('--no-stream', 'Wait for full replies')
+    .option('--use', 'Switch to the profile')
+    .option('--force', 'Replace an existing profile')
+    .action(addProfile);
+
+  // Use subcommand
+  profileCmd
+    .command('use <name>')
+    .description(`Switch profile ("${DEFAULT_PROFILE}" for the main config)`)
+    .action(useProfile);
+
+  // List subcommand
+  profileCmd
+    .command('list')
+    .description('List profiles')
+    .action(listProfiles);
+
+  // Remove subcommand
+  profileCmd
+    .command('rm <name>')
+    .description('Delete a profile')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(removeProfile);
+
+  return profileCmd;
+}
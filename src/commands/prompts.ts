@@ -0,0 +1,185 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { promptLibrary, extractVariables } from '../lib/prompts.js';
+import { requireItem, prepareItem, readItemText, saveItem, removeItem, type AddItemOptions } from '../lib/store.js';
+import { getModelDisplayName } from '../lib/models.js';
+import { colors, withIcon, createBox, showInfo, showSuccess, printJson } from '../lib/ui.js';
+import type { PromptTemplate } from '../types/index.js';
+
+interface AddPromptOptions extends AddItemOptions {
+  template?: string;
+  system?: string;
+}
+
+const LIST_HINT = 'Use "megacli prompts list" to see saved prompts';
+
+// Helper: A prompt template as it appears in --json output, with its variables
+function toPromptJSON(prompt: PromptTemplate) {
+  return { ...prompt, variables: extractVariables(prompt.template) };
+}
+
+// Add or replace a prompt template
+async function addPrompt(name: string, options: AddPromptOptions, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const { existing, modelId } = await prepareItem(promptLibrary, name, options, json);
+  const template = await readItemText(
+    'template',
+    '--template',
+    { text: options.template, file: options.file, initial: existing?.template },
+    json
+  );
+
+  const now = new Date().toISOString();
+  const prompt: PromptTemplate = {
+    name,
+    template,
+    ...(options.description && { description: options.description }),
+    ...(modelId && { model: modelId }),
+    ...(options.temperature !== undefined && { temperature: options.temperature }),
+    ...(options.system && { system: options.system }),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  await saveItem(promptLibrary, prompt, json);
+
+  if (json) {
+    printJson({ prompt: toPromptJSON(prompt) });
+    return;
+  }
+
+  showSuccess(`${existing ? 'Updated' : 'Saved'} prompt ${colors.primary(name)}`);
+
+  const variables = extractVariables(prompt.template);
+  if (variables.length > 0) {
+    console.log(colors.muted('Variables:'), variables.join(', '));
+  }
+  // {{input}} is filled from the question argument of ask
+  const example = variables
+    .filter((v) => v !== 'input')
+    .map((v) => ` --var ${v}=...`)
+    .join('');
+  const question = variables.includes('input') ? ' "<input>"' : '';
+  console.log(`${colors.muted(withIcon('💡', 'Tip: Use'))} megacli ask --prompt ${name}${example}${question}`);
+}
+
+// List prompt templates
+async function listPrompts(_options: object, command: Command) {
+  const prompts = await promptLibrary.list();
+
+  if (command.optsWithGlobals()['json']) {
+    printJson({ prompts: prompts.map(toPromptJSON) });
+    return;
+  }
+
+  if (prompts.length === 0) {
+    showInfo('No saved prompts yet');
+    console.log(colors.muted('Add one with'), colors.primary('megacli prompts add <name> --template "..."'));
+    return;
+  }
+
+  console.log(createBox(`${prompts.length} Saved Prompt(s)`, 'Prompt Library'));
+
+  prompts.forEach((prompt) => {
+    const variables = extractVariables(prompt.template);
+    const description = prompt.description ? ` ${colors.muted(`- ${prompt.description}`)}` : '';
+    console.log(`${colors.primary(prompt.name)}${description}`);
+    const details: string[] = [];
+    if (variables.length > 0) details.push(`vars: ${variables.join(', ')}`);
+    if (prompt.model) details.push(`model: ${prompt.model}`);
+    if (prompt.temperature !== undefined) details.push(`temperature: ${prompt.temperature}`);
+    if (details.length > 0) {
+      console.log(colors.muted(`  ${details.join(' · ')}`));
+    }
+  });
+
+  console.log(`\n${colors.muted(withIcon('💡', 'Tip: Use'))} megacli prompts show <name> ${colors.muted('to see a template')}`);
+}
+
+// Show a prompt template
+async function showPrompt(name: string, _options: object, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const prompt = await requireItem(promptLibrary, name, json, LIST_HINT);
+
+  if (json) {
+    printJson({ prompt: toPromptJSON(prompt) });
+    return;
+  }
+
+  const variables = extractVariables(prompt.template);
+
+  console.log(createBox(prompt.description || prompt.name, `Prompt ${prompt.name}`));
+  if (prompt.model) {
+    console.log(colors.muted('Model:'), colors.primary(getModelDisplayName(prompt.model)));
+  }
+  if (prompt.temperature !== undefined) {
+    console.log(colors.muted('Temperature:'), prompt.temperature);
+  }
+  console.log(colors.muted('Variables:'), variables.length > 0 ? variables.join(', ') : 'none');
+  console.log(colors.muted('Updated:'), new Date(prompt.updatedAt).toLocaleString());
+
+  if (prompt.system) {
+    console.log();
+    console.log(colors.muted(withIcon('⚙️ ', 'System:')));
+    console.log(prompt.system);
+  }
+
+  console.log();
+  console.log(chalk.bold('Template:'));
+  // Highlight placeholders so they stand out from the text
+  console.log(prompt.template.replace(/\{\{[^}]*\}\}/g, (match) => colors.warning(match)));
+  console.log();
+}
+
+// Delete a prompt template
+async function removePrompt(name: string, options: { yes?: boolean }, command: Command) {
+  await removeItem(promptLibrary, name, {
+    yes: options.yes,
+    json: Boolean(command.optsWithGlobals()['json']),
+    hint: LIST_HINT,
+  });
+}
+
+// Create and export the prompts command
+export function createPromptsCommand(): Command {
+  const promptsCmd = new Command('prompts');
+
+  promptsCmd
+    .description('Manage reusable prompt templates')
+    .addHelpText('after', '\nUse the global --json flag for machine-readable output.');
+
+  // Add subcommand
+  promptsCmd
+    .command('add <name>')
+    .description('Add a prompt template (use {{variable}} for placeholders)')
+    .option('--template <text>', 'Template text')
+    .option('-f, --file <path>', 'Read the template from a file')
+    .option('-d, --description <text>', 'Short description')
+    .option('-m, --model <model>', 'Default model (ID or alias)')
+    .option('-t, --temperature <number>', 'Default temperature (0-2)', parseFloat)
+    .option('-s, --system <prompt>', 'Default system prompt')
+    .option('--force', 'Replace an existing prompt')
+    .addHelpText('after', '\nWithout --template or --file, the template is written in $EDITOR (not with --json).')
+    .action(addPrompt);
+
+  // List subcommand
+  promptsCmd
+    .command('list')
+    .description('List prompt templates')
+    .action(listPrompts);
+
+  // Show subcommand
+  promptsCmd
+    .command('show <name>')
+    .description('Show a prompt template')
+    .action(showPrompt);
+
+  // Remove subcommand
+  promptsCmd
+    .command('rm <name>')
+    .description('Delete a prompt template')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(removePrompt);
+
+  return promptsCmd;
+}
@@ -0,0 +1,173 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { usageLedger, formatCost, parseSince } from '../lib/usage.js';
+import { getModelDisplayName } from '../lib/models.js';
+import { createError, exitWithAPIError } from '../lib/errors.js';
+import { colors, createBox, createTable, showInfo, printJson } from '../lib/ui.js';
+import type { UsageRecord } from '../types/index.js';
+
+type GroupBy = 'model' | 'day' | 'command';
+
+const GROUP_BY_OPTIONS: GroupBy[] = ['model', 'day', 'command'];
+
+interface UsageOptions {
+  since?: string;
+  by?: string;
+}
+
+interface UsageGroup {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+// Helper: Get the grouping key for a record
+function groupKey(record: UsageRecord, by: GroupBy): string {
+  switch (by) {
+    case 'day':
+      return record.timestamp.substring(0, 10);
+    case 'command':
+      return record.command;
+    default:
+      return record.model;
+  }
+}
+
+// Aggregate records into groups
+function groupRecords(records: UsageRecord[], by: GroupBy): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+
+  for (const record of records) {
+    const key = groupKey(record, by);
+    const group = groups.get(key) || {
+      key,
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+    };
+    group.requests++;
+    group.promptTokens += record.promptTokens;
+    group.completionTokens += record.completionTokens;
+    group.cost += record.cost;
+    groups.set(key, group);
+  }
+
+  // Days read best in order; everything else by spend
+  return [...groups.values()].sort((a, b) =>
+    by === 'day' ? a.key.localeCompare(b.key) : b.cost - a.cost
+  );
+}
+
+// Helper: Add up the groups
+function sumGroups(groups: UsageGroup[]): Omit<UsageGroup, 'key'> {
+  return groups.reduce(
+    (sum, g) => ({
+      requests: sum.requests + g.requests,
+      promptTokens: sum.promptTokens + g.promptTokens,
+      completionTokens: sum.completionTokens + g.completionTokens,
+      cost: sum.cost + g.cost,
+    }),
+    { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+  );
+}
+
+// Usage command - show spend tables from the local ledger
+async function usageCommand(options: UsageOptions, command: Command) {
+  const json = Boolean(command.optsWithGlobals()['json']);
+  const by = (options.by || 'model') as GroupBy;
+  if (!GROUP_BY_OPTIONS.includes(by)) {
+    exitWithAPIError(
+      createError('validation', 'invalid_grouping', `Invalid grouping: ${options.by}`),
+      json,
+      `Use one of: ${GROUP_BY_OPTIONS.join(', ')}`
+    );
+  }
+
+  let since: Date | undefined;
+  if (options.since) {
+    since = parseSince(options.since);
+    if (!since) {
+      exitWithAPIError(
+        createError('validation', 'invalid_since', `Invalid --since value: ${options.since}`),
+        json,
+        'Use a duration like 24h, 7d, 2w or a date like 2025-01-31'
+      );
+    }
+  }
+
+  const records = await usageLedger.read(since);
+  const groups = groupRecords(records, by);
+  const totals = sumGroups(groups);
+
+  if (json) {
+    printJson({
+      since: since?.toISOString() ?? null,
+      by,
+      groups,
+      totals,
+      estimated: records.some((r) => r.estimated),
+      ledger: usageLedger.getLedgerPath(),
+    });
+    return;
+  }
+
+  if (records.length === 0) {
+    showInfo(since ? `No usage recorded since ${since.toLocaleString()}` : 'No usage recorded yet');
+    return;
+  }
+
+  const title = since ? `Usage since ${since.toLocaleString()}` : 'All-time Usage';
+  console.log(createBox(title, 'MegaCLI Usage'));
+
+  const table = createTable({
+    head: [by === 'model' ? 'Model' : by === 'day' ? 'Day' : 'Command', 'Requests', 'Input', 'Output', 'Cost'].map(
+      (h) => chalk.bold(h)
+    ),
+    colAligns: ['left', 'right', 'right', 'right', 'right'],
+  });
+
+  for (const group of groups) {
+    table.push([
+      by === 'model' ? getModelDisplayName(group.key) : group.key,
+      group.requests.toLocaleString(),
+      group.promptTokens.toLocaleString(),
+      group.completionTokens.toLocaleString(),
+      formatCost(group.cost),
+    ]);
+  }
+
+  table.push(
+    [
+      'Total',
+      totals.requests.toLocaleString(),
+      totals.promptTokens.toLocaleString(),
+      totals.completionTokens.toLocaleString(),
+      formatCost(totals.cost),
+    ].map((cell) => chalk.bold(cell))
+  );
+
+  console.log(table.toString());
+
+  if (records.some((r) => r.estimated)) {
+    console.log(colors.muted('Some token counts were estimated because the API did not report usage.'));
+  }
+  console.log(colors.muted('Costs are estimates based on list prices; see https://megallm.io/dashboard for billing.'));
+  console.log(colors.muted(`Ledger: ${usageLedger.getLedgerPath()}`));
+}
+
+// Create and export the usage command
+export function createUsageCommand(): Command {
+  const usageCmd = new Command('usage');
+
+  usageCmd
+    .description('Show token usage and estimated spend')
+    .option('--since <when>', 'Only include usage since a duration (24h, 7d, 2w) or date')
+    .option('--by <group>', `Group results by ${GROUP_BY_OPTIONS.join(', ')}`, 'model')
+    .addHelpText('after', '\nUse the global --json flag for machine-readable output.')
+    .action(usageCommand);
+
+  return usageCmd;
+}
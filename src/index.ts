@@ -1,6 +1,5 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
-import chalk from 'chalk';
 import gradient from 'gradient-string';
 import figlet from 'figlet';
 import { config } from 'dotenv';
@@ -12,27 +11,113 @@ config();
 import { createAuthCommand } from './commands/auth.js';
 import { createChatCommand } from './commands/chat.js';
 import { createModelsCommand } from './commands/models.js';
+import { createHistoryCommand } from './commands/history.js';
+import { codeCommand } from './commands/code.js';
+import { createUsageCommand } from './commands/usage.js';
+import { createCompareCommand } from './commands/compare.js';
+import { createPromptsCommand } from './commands/prompts.js';
+import { createAskCommand } from './commands/ask.js';
+import { createPersonaCommand } from './commands/persona.js';
+import { createConfigCommand } from './commands/config.js';
+import { createProfileCommand } from './commands/profile.js';
+import { logger } from './lib/logger.js';
+import { configManager } from './lib/config.js';
+import { DEFAULT_BASE_URL, PROVIDERS } from './lib/api-client.js';
+import { MOCK_BASE_URL, isMockUrl } from './lib/mock.js';
+import { fixtures } from './lib/fixtures.js';
+import { createError, exitWithAPIError } from './lib/errors.js';
+import { parseSetting, type SettingKey } from './lib/settings.js';
+import { configureOutput, output, colors, symbol } from './lib/ui.js';
+import type { MegaLLMConfig } from './types/index.js';
 
 const program = new Command();
 
+// Collect repeated --header flags
+function collectHeader(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Turn the network flags into settings for this run, checked like "megacli config set".
+// --header adds to the headers setting rather than replacing it.
+function parseNetworkFlags(options: Record<string, unknown>, json: boolean): Partial<MegaLLMConfig> {
+  const given: Array<[SettingKey, unknown]> = [
+    ['proxy', options['proxy']],
+    ['caFile', options['caFile']],
+    ['timeoutMs', options['timeout']],
+  ];
+
+  const headerFlags = options['header'] as string[];
+  if (headerFlags.length > 0) {
+    const headers: Record<string, string> = { ...configManager.get('headers') };
+    for (const header of headerFlags) {
+      const separator = header.indexOf(':');
+      if (separator < 1) {
+        exitWithAPIError(
+          createError('validation', 'invalid_value', `Invalid header: ${header}`),
+          json,
+          'Use --header "Name: value"'
+        );
+      }
+      headers[header.substring(0, separator).trim()] = header.substring(separator + 1).trim();
+    }
+    given.push(['headers', JSON.stringify(headers)]);
+  }
+
+  const settings: Record<string, unknown> = {};
+  for (const [key, raw] of given) {
+    if (typeof raw !== 'string') continue;
+    try {
+      settings[key] = parseSetting(key, raw);
+    } catch (error) {
+      exitWithAPIError(
+        createError('validation', 'invalid_value', `Invalid value for ${key}: ${(error as Error).message}`, { key }),
+        json
+      );
+    }
+  }
+  return settings as Partial<MegaLLMConfig>;
+}
+
+// Turn --provider into the base URL for this run. "megallm" only changes anything
+// when the configured base URL is the mock provider.
+function parseProvider(name: string | undefined, json: boolean): Partial<MegaLLMConfig> {
+  switch (name) {
+    case undefined:
+      return {};
+    case 'mock':
+      return { baseUrl: MOCK_BASE_URL };
+    case 'megallm':
+      return isMockUrl(configManager.get('baseUrl')) ? { baseUrl: DEFAULT_BASE_URL } : {};
+    default:
+      exitWithAPIError(
+        createError('validation', 'unknown_provider', `Unknown provider: ${name}`, { provider: name }),
+        json,
+        `Providers: ${PROVIDERS.join(', ')}`
+      );
+  }
+}
+
 // Display banner
 function showBanner() {
+  if (output.plain) {
+    console.log('MegaCLI - Access 70+ AI models from your terminal');
+    console.log('Powered by MegaLLM - https://megallm.io\n');
+    return;
+  }
+
   try {
-    console.log(
-      gradient.pastel.multiline(
-        figlet.textSync('MegaCLI', {
-          font: 'ANSI Shadow',
-          horizontalLayout: 'default',
-        })
-      )
-    );
-    console.log(chalk.cyan('  Access 70+ AI models from your terminal\n'));
-    console.log(chalk.gray('  Powered by MegaLLM • https://megallm.io\n'));
+    const banner = figlet.textSync('MegaCLI', {
+      font: 'ANSI Shadow',
+      horizontalLayout: 'default',
+    });
+    console.log(output.color ? gradient.pastel.multiline(banner) : banner);
+    console.log(colors.primary('  Access 70+ AI models from your terminal\n'));
+    console.log(colors.muted('  Powered by MegaLLM • https://megallm.io\n'));
   } catch (error) {
     // Fallback if figlet fails
-    console.log(chalk.cyan.bold('\n  MegaCLI\n'));
-    console.log(chalk.cyan('  Access 70+ AI models from your terminal\n'));
-    console.log(chalk.gray('  Powered by MegaLLM • https://megallm.io\n'));
+    console.log(colors.primary.bold('\n  MegaCLI\n'));
+    console.log(colors.primary('  Access 70+ AI models from your terminal\n'));
+    console.log(colors.muted('  Powered by MegaLLM • https://megallm.io\n'));
   }
 }
 
@@ -41,10 +126,49 @@ program
   .name('megacli')
   .description('Official CLI for MegaLLM - Access 70+ AI models from your terminal')
   .version('0.1.0', '-v, --version', 'Output the current version')
-  .option('--no-color', 'Disable colored output')
+  .option('--no-color', 'Disable colored output (also set by NO_COLOR)')
+  .option('--plain', 'Plain output for CI logs and screen readers: no boxes, emoji, spinners or gradients')
   .option('--json', 'Output in JSON format')
-  .option('--verbose', 'Enable verbose logging')
-  .hook('preAction', (thisCommand) => {
+  .option('--verbose', 'Log API requests and responses to stderr (API keys are masked)')
+  .option('--log-file <path>', 'Append a debug trace of API requests to a file')
+  .option('--profile <name>', 'Use a profile for this command (also set by MEGACLI_PROFILE)')
+  .option('--proxy <url>', 'Send API requests through this proxy (default: HTTPS_PROXY, then the proxy setting)')
+  .option('--ca-file <path>', 'Also trust the certificate authorities in this PEM file')
+  .option('--timeout <ms>', 'How long to wait for the API to start replying, in milliseconds')
+  .option('--header <header>', 'Extra HTTP header for API requests, as "Name: value" (repeatable)', collectHeader, [])
+  .option('--provider <name>', `Where API requests go: ${PROVIDERS.join(' or ')} (mock answers locally, for testing)`)
+  .option('--record <dir>', 'Save every API response in a folder, to replay later')
+  .option('--replay <dir>', 'Answer API requests from responses saved with --record (works offline)')
+  .hook('preAction', (thisCommand, actionCommand) => {
+    const options = thisCommand.opts();
+    const json = Boolean(options['json']);
+    configManager.setProfileOverride(options['profile']);
+    configManager.setFlagOverrides({
+      ...parseNetworkFlags(options, json),
+      ...parseProvider(options['provider'], json),
+    });
+    try {
+      fixtures.configure({ record: options['record'], replay: options['replay'] });
+    } catch (error) {
+      exitWithAPIError(createError('validation', 'invalid_fixtures', (error as Error).message), json);
+    }
+    configureOutput({ color: options['color'], plain: options['plain'], theme: configManager.get('theme') });
+    logger.configure({ verbose: options['verbose'], logFile: options['logFile'] });
+
+    // A missing profile would silently fall back to the main config, so stop here
+    // (except for "megacli profile ...", which is how it gets fixed)
+    const profile = configManager.getActiveProfile();
+    if (profile && !configManager.hasProfile(profile.name) && actionCommand.parent?.name() !== 'profile') {
+      const origin = profile.source === 'env' ? ' (from MEGACLI_PROFILE)' : '';
+      exitWithAPIError(
+        createError('validation', 'profile_not_found', `Profile not found: ${profile.name}${origin}`, {
+          profile: profile.name,
+        }),
+        Boolean(options['json']),
+        'Use "megacli profile list" to see your profiles'
+      );
+    }
+
     // Show banner for main command only
     if (thisCommand.args.length === 0) {
       showBanner();
@@ -60,27 +184,37 @@ program.addCommand(createChatCommand());
 // Add models command
 program.addCommand(createModelsCommand());
 
-// Placeholder commands (will be implemented later)
-program
-  .command('code')
-  .description('Start coding assistant')
-  .action(() => {
-    console.log(chalk.yellow('⚠️  Code command coming soon!'));
-    console.log(chalk.gray('This will start the agentic coding assistant.'));
-  });
+// Add history command
+program.addCommand(createHistoryCommand());
 
-program
-  .command('ask <question>')
-  .description('Ask a quick question')
-  .action((question: string) => {
-    console.log(chalk.yellow('⚠️  Ask command coming soon!'));
-    console.log(chalk.gray(`Question: ${question}`));
-  });
+// Add code command
+program.addCommand(codeCommand);
+
+// Add usage command
+program.addCommand(createUsageCommand());
+
+// Add compare command
+program.addCommand(createCompareCommand());
+
+// Add prompts command
+program.addCommand(createPromptsCommand());
+
+// Add ask command
+program.addCommand(createAskCommand());
+
+// Add persona command
+program.addCommand(createPersonaCommand());
+
+// Add config command
+program.addCommand(createConfigCommand());
+
+// Add profile command
+program.addCommand(createProfileCommand());
 
 // Handle unknown commands
 program.on('command:*', () => {
-  console.error(chalk.red('❌ Invalid command'));
-  console.log(chalk.gray('Run'), chalk.cyan('megacli --help'), chalk.gray('to see available commands'));
+  console.error(colors.error(`${symbol('error')} Invalid command`));
+  console.log(colors.muted('Run'), colors.primary('megacli --help'), colors.muted('to see available commands'));
   process.exit(1);
 });
 
@@ -89,6 +223,7 @@ program.parse(process.argv);
 
 // Show help if no command provided
 if (!process.argv.slice(2).length) {
+  configureOutput({ theme: configManager.get('theme') });
   showBanner();
   program.outputHelp();
 }
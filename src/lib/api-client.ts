@@ -0,0 +1,70 @@
+import OpenAI from 'openai';
+import nodeFetch from 'node-fetch';
+import { configManager } from './config.js';
+import { withLogging, logger } from './logger.js';
+import { createAgent, getProxy, describeProxy } from './network.js';
+import { isMockUrl, mockFetch, MOCK_API_URL, OFFLINE_API_KEY } from './mock.js';
+import { fixtures } from './fixtures.js';
+import { createError, exitWithAPIError } from './errors.js';
+
+export const DEFAULT_BASE_URL = 'https://ai.megallm.io/v1';
+
+// Backends --provider chooses between: MegaLLM, or the mock provider that answers locally
+export const PROVIDERS = ['megallm', 'mock'] as const;
+
+// Retries after a rate limit (429), a server error (5xx), a timeout or a dropped
+// connection. The SDK waits with exponential backoff (0.5s doubling up to 8s, with
+// jitter), or as long as the Retry-After header asks when that is under a minute.
+export const MAX_RETRIES = 3;
+
+// Give up on an attempt that has not started replying by then (unless timeoutMs
+// is set). Replies without streaming arrive all at once, so long ones can take minutes.
+export const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Create a MegaLLM API client. Every command talks to the API through one of
+ * these, so they share the retry policy, the network settings (proxy, CA file,
+ * timeout, extra headers), --record / --replay and the debug logger. With the
+ * mock provider, requests are answered locally. Failures are OpenAI.APIError
+ * subclasses; map them with toAPIError.
+ */
+export function createClient(apiKey?: string): OpenAI {
+  const baseURL = configManager.get('baseUrl') || DEFAULT_BASE_URL;
+  const mock = isMockUrl(baseURL);
+
+  // Offline, no key is needed: use one only if it is already known
+  const key =
+    apiKey ?? (configManager.isOffline() ? configManager.peekApiKey() ?? OFFLINE_API_KEY : configManager.getApiKey()!);
+
+  let httpAgent: ReturnType<typeof createAgent>;
+  try {
+    httpAgent = mock ? undefined : createAgent(baseURL);
+  } catch (error) {
+    exitWithAPIError(
+      createError('validation', 'invalid_network_setting', (error as Error).message),
+      false,
+      'Check the proxy and caFile settings ("megacli config list --show-origin")'
+    );
+  }
+
+  const proxy = getProxy(baseURL);
+  if (proxy) {
+    logger.debug(`Using proxy ${describeProxy(proxy.url)} (from ${proxy.detail ?? proxy.source})`);
+  }
+  if (mock) {
+    logger.debug('Using the mock provider');
+  }
+  if (fixtures.currentMode) {
+    logger.debug(`${fixtures.replaying ? 'Replaying' : 'Recording'} API responses in ${fixtures.directory}`);
+  }
+
+  return new OpenAI({
+    baseURL: mock ? MOCK_API_URL : baseURL,
+    apiKey: key,
+    maxRetries: MAX_RETRIES,
+    timeout: configManager.get('timeoutMs') ?? REQUEST_TIMEOUT_MS,
+    defaultHeaders: configManager.get('headers'),
+    httpAgent,
+    fetch: withLogging(fixtures.wrap(mock ? mockFetch : nodeFetch)),
+  });
+}
@@ -0,0 +1,89 @@
+import path from 'path';
+import { FileSystemManager } from './filesystem.js';
+import { estimateTokens } from './tokens.js';
+
+export interface Attachment {
+  path: string;
+  content: string;
+  tokens: number;
+}
+
+export interface AttachmentResult {
+  attachments: Attachment[];
+  errors: string[];
+}
+
+// Largest file that can be attached to a chat message
+export const MAX_ATTACHMENT_BYTES = 100 * 1024;
+
+// Matches "@src/foo.ts" at the start of the text or after whitespace
+const MENTION_REGEX = /(^|\s)@([\w./-]+[\w/])/g;
+
+/**
+ * Find the @path mentions in a message
+ */
+export function extractMentions(text: string): string[] {
+  const mentions = new Set<string>();
+  for (const match of text.matchAll(MENTION_REGEX)) {
+    if (match[2]) mentions.add(match[2]);
+  }
+  return [...mentions];
+}
+
+/**
+ * Load the files matching a glob (or a plain path) through the sandboxed file system
+ */
+export async function loadAttachments(
+  fs: FileSystemManager,
+  pattern: string
+): Promise<AttachmentResult> {
+  const files = await fs.findFiles(pattern);
+  if (files.length === 0) {
+    return { attachments: [], errors: [`No files match: ${pattern}`] };
+  }
+  return loadFiles(fs, files.sort());
+}
+
+/**
+ * Load a list of files, collecting refusals (binary, oversized, outside workspace) as errors
+ */
+export async function loadFiles(fs: FileSystemManager, files: string[]): Promise<AttachmentResult> {
+  const result: AttachmentResult = { attachments: [], errors: [] };
+
+  for (const file of files) {
+    try {
+      const content = await fs.readTextFile(file, MAX_ATTACHMENT_BYTES);
+      const filePath = file.split(path.sep).join('/');
+      result.attachments.push({
+        path: filePath,
+        content,
+        tokens: estimateTokens(formatAttachment({ path: filePath, content, tokens: 0 })),
+      });
+    } catch (error) {
+      result.errors.push((error as Error).message);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Wrap a file in a labelled fenced code block
+ */
+export function formatAttachment(attachment: Attachment): string {
+  // Use a fence longer than any backtick run in the file so it cannot close early
+  const longestRun = Math.max(2, ...(attachment.content.match(/`+/g) || []).map((r) => r.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const language = path.extname(attachment.path).slice(1);
+  const content = attachment.content.endsWith('\n') ? attachment.content : `${attachment.content}\n`;
+
+  return `File: ${attachment.path}\n${fence}${language}\n${content}${fence}`;
+}
+
+/**
+ * Append attachments to a message
+ */
+export function appendAttachments(message: string, attachments: Attachment[]): string {
+  if (attachments.length === 0) return message;
+  return [message, ...attachments.map(formatAttachment)].join('\n\n');
+}
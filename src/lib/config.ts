@@ -1,6 +1,15 @@
 import Conf from 'conf';
-import chalk from 'chalk';
-import type { MegaLLMConfig } from '../types/index.js';
+import fs from 'fs';
+import path from 'path';
+import { EXIT_CODES, createError, exitWithAPIError } from './errors.js';
+import { colors, symbol } from './ui.js';
+import { validateSettings } from './settings.js';
+import { resolveModelId } from './models.js';
+import { runKeyCommand, readKeyFile } from './credentials.js';
+import { promptPassphrase } from './input.js';
+import { isMockUrl } from './mock.js';
+import { fixtures } from './fixtures.js';
+import type { MegaLLMConfig, ProfileSettings, ProjectSettings } from '../types/index.js';
 
 const CONFIG_DEFAULTS: Partial<MegaLLMConfig> = {
   baseUrl: 'https://ai.megallm.io/v1',
@@ -13,8 +22,142 @@ const CONFIG_DEFAULTS: Partial<MegaLLMConfig> = {
   trustedWorkspaces: [],
 };
 
+// Settings a profile can override
+export const PROFILE_KEYS = [
+  'apiKey',
+  'apiKeyCommand',
+  'apiKeyFile',
+  'baseUrl',
+  'defaultModel',
+  'streaming',
+  'temperature',
+  'maxTokens',
+] as const;
+
+// Project config file names, looked for from the current folder upward
+export const PROJECT_CONFIG_FILES = ['.megacli.json', 'megacli.config.json'] as const;
+
+// Settings a project config file can set. Anything else in it is ignored, so a
+// cloned repo cannot send your key to another server or run a key helper.
+// allowedCommands from a project can only narrow your own list.
+export const PROJECT_KEYS = [
+  'defaultModel',
+  'streaming',
+  'temperature',
+  'maxTokens',
+  'systemPrompt',
+  'ignore',
+  'allowedCommands',
+  'macros',
+] as const;
+
+// Project settings that steer what code mode asks for and does. They only apply
+// once the folder holding the project file is in trustedWorkspaces.
+export const PROJECT_TRUSTED_KEYS = ['systemPrompt', 'macros'] as const;
+
+// Settings that say where the API key comes from
+const API_KEY_SETTINGS = ['apiKey', 'apiKeyCommand', 'apiKeyFile'] as const;
+
+// Profile name that means "no profile": just the main config
+export const DEFAULT_PROFILE = 'default';
+
+// Where the active profile was chosen
+export type ProfileSource = 'flag' | 'env' | 'config';
+
+// Where the API key comes from: a credential helper, an encrypted key file,
+// the config file or the MEGALLM_API_KEY environment variable
+export type ApiKeySource = 'command' | 'file' | 'config' | 'env';
+
+// Where a setting's value comes from, from the highest precedence down
+export type SettingSource = 'flag' | 'env' | 'project' | 'profile' | 'config' | 'default';
+
+export interface SettingOrigin {
+  source: SettingSource;
+  // The environment variable, project file path or profile name
+  detail?: string;
+}
+
+// The project config file that applies in the current folder
+export interface ProjectConfig {
+  path: string;
+  settings: ProjectSettings;
+  // Keys in the file that a project cannot set
+  ignored: string[];
+  // Settings in the file whose values are not valid, with the reason
+  invalid: Array<{ key: string; message: string }>;
+  // Why the file could not be used, if it could not
+  error?: string;
+}
+
+export interface ApiKeyOrigin {
+  source: ApiKeySource;
+  // The helper command or key file path
+  detail?: string;
+  // Profile the setting belongs to, if not the main config
+  profile?: string;
+}
+
+function isProfileKey(key: keyof MegaLLMConfig): key is keyof ProfileSettings {
+  return (PROFILE_KEYS as readonly string[]).includes(key);
+}
+
+function isProjectKey(key: string): key is keyof ProjectSettings {
+  return (PROJECT_KEYS as readonly string[]).includes(key);
+}
+
+// Helper: Find and read the nearest project config file, starting in dir
+function loadProjectConfig(dir: string): ProjectConfig | undefined {
+  for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+    const file = PROJECT_CONFIG_FILES.map((name) => path.join(current, name)).find((candidate) =>
+      fs.existsSync(candidate)
+    );
+    if (file) {
+      try {
+        const data: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+          throw new Error('Must be a JSON object');
+        }
+        const settings: Record<string, unknown> = {};
+        const ignored: string[] = [];
+        const invalid: ProjectConfig['invalid'] = [];
+        for (const [key, raw] of Object.entries(data)) {
+          if (!isProjectKey(key)) {
+            ignored.push(key);
+            continue;
+          }
+          // Model aliases are used as full IDs, like "megacli config set" stores them
+          const value = key === 'defaultModel' && typeof raw === 'string' ? resolveModelId(raw) ?? raw : raw;
+          const [problem] = validateSettings({ [key]: value });
+          if (problem) {
+            invalid.push({ key, message: problem.substring(key.length + 2) });
+          } else {
+            settings[key] = value;
+          }
+        }
+        return { path: file, settings: settings as ProjectSettings, ignored, invalid };
+      } catch (error) {
+        return { path: file, settings: {}, ignored: [], invalid: [], error: (error as Error).message };
+      }
+    }
+
+    if (path.dirname(current) === current) {
+      return undefined;
+    }
+  }
+}
+
 class ConfigManager {
   private config: Conf<MegaLLMConfig>;
+  // Set from the global --profile flag
+  private profileOverride: string | undefined;
+  // Keys from credential helpers and key files, fetched at most once per process
+  private keyCache = new Map<string, string>();
+  // Why the key could not be fetched, if it could not
+  private keyError: string | undefined;
+  // Project config file, looked up on first use (null when there is none)
+  private project: ProjectConfig | null | undefined;
+  // Settings given as global flags, for this run only
+  private flagOverrides: Partial<MegaLLMConfig> = {};
 
   constructor() {
     this.config = new Conf<MegaLLMConfig>({
@@ -23,19 +166,259 @@ class ConfigManager {
     });
   }
 
-  // Get configuration value
+  // Get configuration value: a flag's, then the project's, then the active profile's,
+  // then the main config's
   get<K extends keyof MegaLLMConfig>(key: K): MegaLLMConfig[K] | undefined {
+    if (this.flagOverrides[key] !== undefined) {
+      return this.flagOverrides[key];
+    }
+    const project = this.getProjectSettings();
+    if (project && isProjectKey(key) && project[key] !== undefined) {
+      return project[key] as MegaLLMConfig[K];
+    }
+    const profile = this.getProfileSettings();
+    if (profile && isProfileKey(key) && profile[key] !== undefined) {
+      return profile[key] as MegaLLMConfig[K];
+    }
     return this.config.get(key);
   }
 
-  // Set configuration value
+  // Set configuration value. Profile settings are saved to the active profile.
   set<K extends keyof MegaLLMConfig>(key: K, value: MegaLLMConfig[K]): void {
-    this.config.set(key, value);
+    const profile = this.getActiveProfile();
+    this.forgetApiKey(key);
+    if (profile && isProfileKey(key)) {
+      this.config.set(`profiles.${profile.name}.${key}`, value);
+    } else {
+      this.config.set(key, value);
+    }
+  }
+
+  // Remove a setting. In a profile, the main config's value applies again;
+  // otherwise settings with a default go back to it.
+  unset<K extends keyof MegaLLMConfig>(key: K): void {
+    const profile = this.getActiveProfile();
+    const fallback = CONFIG_DEFAULTS[key];
+    this.forgetApiKey(key);
+    if (profile && isProfileKey(key)) {
+      this.config.delete(`profiles.${profile.name}.${key}`);
+    } else if (fallback === undefined) {
+      this.config.delete(key);
+    } else {
+      this.config.set(key, fallback);
+    }
+  }
+
+  // Get the default for a setting, if it has one
+  getDefault<K extends keyof MegaLLMConfig>(key: K): MegaLLMConfig[K] | undefined {
+    return CONFIG_DEFAULTS[key];
   }
 
-  // Get all configuration
+  // Get all configuration, with every layer applied
   getAll(): Partial<MegaLLMConfig> {
-    return this.config.store;
+    const envKey = process.env['MEGALLM_API_KEY'];
+    return {
+      ...this.config.store,
+      ...this.getProfileSettings(),
+      ...this.getProjectSettings(),
+      ...(envKey && { apiKey: envKey }),
+      ...this.flagOverrides,
+    };
+  }
+
+  /**
+   * Apply settings given as global flags (e.g. --proxy) for this run. They win
+   * over every other layer and are never saved.
+   */
+  setFlagOverrides(settings: Partial<MegaLLMConfig>): void {
+    this.flagOverrides = settings;
+  }
+
+  /**
+   * Find where a setting's value comes from. Flags win; MEGALLM_API_KEY wins over
+   * every file; then the project config file, the active profile and the main
+   * config. Main config values equal to the default are reported as the default.
+   */
+  getOrigin(key: keyof MegaLLMConfig): SettingOrigin | undefined {
+    if (this.flagOverrides[key] !== undefined) {
+      return { source: 'flag' };
+    }
+    if (key === 'apiKey' && process.env['MEGALLM_API_KEY']) {
+      return { source: 'env', detail: 'MEGALLM_API_KEY' };
+    }
+
+    const project = this.getProjectConfig();
+    if (project && isProjectKey(key) && this.getProjectSettings()?.[key] !== undefined) {
+      return { source: 'project', detail: project.path };
+    }
+
+    const profile = this.getActiveProfile();
+    if (profile && isProfileKey(key) && this.getProfileSettings()?.[key] !== undefined) {
+      return { source: 'profile', detail: profile.name };
+    }
+
+    const value = this.config.get(key);
+    if (value === undefined) {
+      return undefined;
+    }
+    const isDefault = JSON.stringify(value) === JSON.stringify(CONFIG_DEFAULTS[key]);
+    return { source: isDefault ? 'default' : 'config' };
+  }
+
+  /**
+   * Get the project config file that applies here: the first .megacli.json or
+   * megacli.config.json found from the current folder upward. It is read once
+   * per run; a file that cannot be used is reported and ignored, and so is each
+   * setting in it that a project cannot set or whose value is not valid.
+   */
+  getProjectConfig(): ProjectConfig | undefined {
+    if (this.project === undefined) {
+      this.project = loadProjectConfig(process.cwd()) ?? null;
+      if (this.project?.error) {
+        console.error(colors.warning(symbol('warning')), `Ignoring ${this.project.path}: ${this.project.error}`);
+      } else if (this.project) {
+        if (this.project.ignored.length) {
+          console.error(
+            colors.warning(symbol('warning')),
+            `Ignoring ${this.project.ignored.join(', ')} in ${this.project.path} (not allowed in a project config file)`
+          );
+        }
+        for (const { key, message } of this.project.invalid) {
+          console.error(colors.warning(symbol('warning')), `Ignoring ${key} in ${this.project.path}: ${message}`);
+        }
+        const untrusted = PROJECT_TRUSTED_KEYS.filter((key) => this.project?.settings[key] !== undefined);
+        if (untrusted.length && !this.isProjectTrusted(this.project)) {
+          console.error(
+            colors.warning(symbol('warning')),
+            `Ignoring ${untrusted.join(', ')} in ${this.project.path} until its folder is trusted (add it to trustedWorkspaces)`
+          );
+        }
+      }
+    }
+    return this.project ?? undefined;
+  }
+
+  /**
+   * Get the project settings that apply: systemPrompt and macros only when the
+   * project's folder is trusted, and allowedCommands only where your own list
+   * (if you have one) allows them too.
+   */
+  private getProjectSettings(): ProjectSettings | undefined {
+    const project = this.getProjectConfig();
+    if (!project) {
+      return undefined;
+    }
+    const settings = { ...project.settings };
+    if (!this.isProjectTrusted(project)) {
+      for (const key of PROJECT_TRUSTED_KEYS) {
+        delete settings[key];
+      }
+    }
+    if (settings.allowedCommands) {
+      const own = this.config.get('allowedCommands');
+      if (own) {
+        settings.allowedCommands = settings.allowedCommands.filter((command) => own.includes(command));
+      }
+    }
+    return settings;
+  }
+
+  // Check if the folder holding a project file is trusted. Read from the main
+  // config directly: trust never comes from a project or a profile.
+  private isProjectTrusted(project: ProjectConfig): boolean {
+    const trustedWorkspaces = this.config.get('trustedWorkspaces') || [];
+    return trustedWorkspaces.includes(path.dirname(project.path));
+  }
+
+  /**
+   * Choose the profile for this run (the global --profile flag). It wins over
+   * MEGACLI_PROFILE and the profile saved with "megacli profile use".
+   */
+  setProfileOverride(name: string | undefined): void {
+    this.profileOverride = name;
+  }
+
+  /**
+   * Get the active profile and where it was chosen, or undefined when the main
+   * config is used on its own.
+   */
+  getActiveProfile(): { name: string; source: ProfileSource } | undefined {
+    const candidates: Array<[string | undefined, ProfileSource]> = [
+      [this.profileOverride, 'flag'],
+      [process.env['MEGACLI_PROFILE'], 'env'],
+      [this.config.get('activeProfile'), 'config'],
+    ];
+    const found = candidates.find(([name]) => name);
+    if (!found || found[0] === DEFAULT_PROFILE) {
+      return undefined;
+    }
+    return { name: found[0]!, source: found[1] };
+  }
+
+  // Get all saved profiles, by name
+  getProfiles(): Record<string, ProfileSettings> {
+    return this.config.get('profiles') ?? {};
+  }
+
+  // Check if a profile exists ("default" always does)
+  hasProfile(name: string): boolean {
+    return name === DEFAULT_PROFILE || name in this.getProfiles();
+  }
+
+  // Save a profile, replacing any with the same name
+  saveProfile(name: string, settings: ProfileSettings): void {
+    this.config.set(`profiles.${name}`, settings);
+  }
+
+  // Delete a profile, with its encrypted key file unless the main config or another
+  // profile uses that file too. Stops using it if it was the saved active profile.
+  deleteProfile(name: string): void {
+    const { [name]: settings, ...others } = this.getProfiles();
+    const keyFile = settings?.apiKeyFile;
+    if (keyFile) {
+      const shared = [this.config.get('apiKeyFile'), ...Object.values(others).map((other) => other.apiKeyFile)];
+      if (!shared.includes(keyFile)) {
+        fs.rmSync(keyFile, { force: true });
+      }
+      this.keyCache.delete(`file:${keyFile}`);
+    }
+    if (settings?.apiKeyCommand) {
+      this.keyCache.delete(`command:${settings.apiKeyCommand}`);
+    }
+
+    this.config.delete(`profiles.${name}`);
+    if (this.config.get('activeProfile') === name) {
+      this.config.delete('activeProfile');
+    }
+  }
+
+  // Save the profile to use from now on ("default" for none)
+  setActiveProfile(name: string): void {
+    if (name === DEFAULT_PROFILE) {
+      this.config.delete('activeProfile');
+    } else {
+      this.config.set('activeProfile', name);
+    }
+  }
+
+  // Drop fetched keys when a key setting changes
+  private forgetApiKey(key: keyof MegaLLMConfig): void {
+    if ((API_KEY_SETTINGS as readonly string[]).includes(key)) {
+      this.keyCache.clear();
+      this.keyError = undefined;
+    }
+  }
+
+  // Settings of the active profile, if there is one
+  private getProfileSettings(): ProfileSettings | undefined {
+    const profile = this.getActiveProfile();
+    return profile ? this.getProfiles()[profile.name] : undefined;
+  }
+
+  // Whether requests are answered without MegaLLM (the mock provider or --replay),
+  // so no API key is needed
+  isOffline(): boolean {
+    return isMockUrl(this.get('baseUrl')) || fixtures.replaying;
   }
 
   // Check if API key exists
@@ -44,37 +427,150 @@ class ConfigManager {
     return !!apiKey && apiKey.startsWith('sk-mega-');
   }
 
-  // Get API key from config or environment
+  /**
+   * Find where the API key comes from, without running a helper or decrypting
+   * anything. MEGALLM_API_KEY wins; then the active profile's key settings win
+   * over the main config's. In each, a credential helper wins over a key file,
+   * which wins over a plain key.
+   */
+  getApiKeyOrigin(): ApiKeyOrigin | undefined {
+    if (process.env['MEGALLM_API_KEY']) {
+      return { source: 'env' };
+    }
+
+    const layers: Array<[ProfileSettings | undefined, string | undefined]> = [
+      [this.getProfileSettings(), this.getActiveProfile()?.name],
+      [this.config.store, undefined],
+    ];
+
+    for (const [settings, profile] of layers) {
+      const inProfile = profile ? { profile } : {};
+      if (settings?.apiKeyCommand) {
+        return { source: 'command', detail: settings.apiKeyCommand, ...inProfile };
+      }
+      if (settings?.apiKeyFile) {
+        return { source: 'file', detail: settings.apiKeyFile, ...inProfile };
+      }
+      if (settings?.apiKey) {
+        return { source: 'config', ...inProfile };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the API key. A credential helper is run the first time; a key file
+   * must be unlocked first (see unlockApiKey).
+   */
   getApiKey(): string | undefined {
-    return this.config.get('apiKey') || process.env['MEGALLM_API_KEY'];
+    const origin = this.getApiKeyOrigin();
+    if (origin?.source === 'command' && !this.keyCache.has(`command:${origin.detail}`) && !this.keyError) {
+      try {
+        this.keyCache.set(`command:${origin.detail}`, runKeyCommand(origin.detail!));
+      } catch (error) {
+        this.keyError = (error as Error).message;
+      }
+    }
+    return this.peekApiKey();
+  }
+
+  /**
+   * Get the API key only if it is already known: never runs a helper or asks
+   * for a passphrase. Used to mask the key in logs.
+   */
+  peekApiKey(): string | undefined {
+    const origin = this.getApiKeyOrigin();
+    switch (origin?.source) {
+      case 'command':
+      case 'file':
+        return this.keyCache.get(`${origin.source}:${origin.detail}`);
+      case 'config':
+        return this.get('apiKey');
+      case 'env':
+        return process.env['MEGALLM_API_KEY'];
+      default:
+        return undefined;
+    }
+  }
+
+  // Why the API key could not be fetched (helper failed, wrong passphrase, ...)
+  getApiKeyError(): string | undefined {
+    return this.keyError;
+  }
+
+  /**
+   * Decrypt the key file, if that is where the key comes from. The passphrase
+   * comes from MEGACLI_PASSPHRASE, or is asked for on the terminal.
+   */
+  async unlockApiKey(): Promise<void> {
+    const origin = this.getApiKeyOrigin();
+    if (origin?.source !== 'file' || this.keyCache.has(`file:${origin.detail}`) || this.keyError) {
+      return;
+    }
+
+    let passphrase = process.env['MEGACLI_PASSPHRASE'];
+    if (!passphrase) {
+      if (!process.stdin.isTTY) {
+        this.keyError = 'The API key file is encrypted; set MEGACLI_PASSPHRASE to unlock it without a terminal';
+        return;
+      }
+      passphrase = await promptPassphrase('Passphrase for your API key file:');
+    }
+
+    try {
+      this.keyCache.set(`file:${origin.detail}`, readKeyFile(origin.detail!, passphrase));
+    } catch (error) {
+      this.keyError = (error as Error).message;
+    }
   }
 
-  // Set API key
+  // Set API key (replacing a helper or key file, so the new key is used)
   setApiKey(apiKey: string): void {
     if (!apiKey.startsWith('sk-mega-')) {
       throw new Error('Invalid API key format. MegaLLM keys start with "sk-mega-"');
     }
-    this.config.set('apiKey', apiKey);
+    this.unset('apiKeyCommand');
+    this.unset('apiKeyFile');
+    this.set('apiKey', apiKey);
   }
 
-  // Remove API key
+  // Use an encrypted key file that was just written, and remember its key
+  setApiKeyFile(filePath: string, apiKey: string): void {
+    this.unset('apiKeyCommand');
+    this.unset('apiKey');
+    this.set('apiKeyFile', filePath);
+    this.keyCache.set(`file:${filePath}`, apiKey);
+  }
+
+  // Remove API key. A key file is deleted too; a helper's own store is left alone.
   removeApiKey(): void {
-    this.config.delete('apiKey');
+    const origin = this.getApiKeyOrigin();
+    if (origin?.source === 'file') {
+      fs.rmSync(origin.detail!, { force: true });
+    }
+    API_KEY_SETTINGS.forEach((key) => this.unset(key));
   }
 
   // Get masked API key for display
   getMaskedApiKey(): string {
     const apiKey = this.getApiKey();
     if (!apiKey) return 'Not set';
-    
-    const start = apiKey.substring(0, 11); // sk-mega-xxx
-    const end = apiKey.substring(apiKey.length - 4);
-    return `${start}***${end}`;
+
+    return maskApiKey(apiKey);
   }
 
-  // Reset to defaults
+  // Reset the main config to its defaults. Profiles, and the choice of active
+  // profile, are kept ("megacli profile rm" removes them).
   reset(): void {
+    const { profiles, activeProfile } = this.config.store;
     this.config.clear();
+    if (profiles) {
+      this.config.set('profiles', profiles);
+    }
+    if (activeProfile) {
+      this.config.set('activeProfile', activeProfile);
+    }
   }
 
   // Get config file path
@@ -86,18 +582,27 @@ class ConfigManager {
   validate(): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
-    if (!this.hasApiKey()) {
+    if (!this.isOffline() && !this.hasApiKey()) {
       errors.push('API key not configured');
     }
 
-    const baseUrl = this.get('baseUrl');
-    if (baseUrl && !baseUrl.startsWith('http')) {
-      errors.push('Invalid base URL');
+    // Type-check every stored setting (the file may have been edited by hand)
+    errors.push(...validateSettings(this.config.store));
+    for (const [name, settings] of Object.entries(this.getProfiles())) {
+      errors.push(...validateSettings(settings, `profiles.${name}.`));
+    }
+
+    const profile = this.getActiveProfile();
+    if (profile && !this.hasProfile(profile.name)) {
+      errors.push(`Active profile does not exist: ${profile.name}`);
     }
 
-    const temperature = this.get('temperature');
-    if (temperature !== undefined && (temperature < 0 || temperature > 2)) {
-      errors.push('Temperature must be between 0 and 2');
+    const project = this.getProjectConfig();
+    if (project?.error) {
+      errors.push(`${project.path}: ${project.error}`);
+    } else if (project) {
+      errors.push(...project.invalid.map(({ key, message }) => `${project.path}: ${key}: ${message}`));
+      errors.push(...project.ignored.map((key) => `${project.path}: ${key}: Not allowed in a project config file`));
     }
 
     return {
@@ -122,15 +627,37 @@ class ConfigManager {
   }
 }
 
+// Mask an API key for display, keeping only the prefix and the last 4 characters
+export function maskApiKey(apiKey: string): string {
+  const start = apiKey.substring(0, 11); // sk-mega-xxx
+  const end = apiKey.substring(apiKey.length - 4);
+  return `${start}***${end}`;
+}
+
 // Export singleton instance
 export const configManager = new ConfigManager();
 
-// Helper to ensure user is authenticated
-export function ensureAuthenticated(): void {
+// Helper to ensure user is authenticated (unlocking an encrypted key file first).
+// Offline, nothing is needed.
+export async function ensureAuthenticated(json = false): Promise<void> {
+  if (configManager.isOffline()) {
+    return;
+  }
+
+  await configManager.unlockApiKey();
+  const keyError = configManager.getApiKeyError();
+  if (keyError) {
+    exitWithAPIError(createError('authentication', 'api_key_unavailable', keyError), json);
+  }
+
   if (!configManager.hasApiKey()) {
-    console.error(chalk.red('❌ Not authenticated'));
-    console.log(chalk.gray('Run'), chalk.cyan('megacli auth login'), chalk.gray('to set up your API key'));
-    console.log(chalk.gray('Get your API key from:'), chalk.cyan('https://megallm.io/dashboard'));
-    process.exit(1);
+    const error = createError('authentication', 'not_authenticated', 'Not authenticated');
+    if (json) {
+      exitWithAPIError(error, true);
+    }
+    console.error(colors.error(symbol('error')), 'Not authenticated');
+    console.log(colors.muted('Run'), colors.primary('megacli auth login'), colors.muted('to set up your API key'));
+    console.log(colors.muted('Get your API key from:'), colors.primary('https://megallm.io/dashboard'));
+    process.exit(EXIT_CODES[error.type]);
   }
 }
@@ -0,0 +1,145 @@
+import type { ChatMessage, ConversationNode, ConversationTreeData } from '../types/index.js';
+
+/**
+ * A conversation stored as a tree. Retrying, editing or undoing a turn moves the
+ * head back and continues from there, so earlier continuations stay in the tree
+ * as branches. The active branch is the path from the first message to the head.
+ */
+export class ConversationTree {
+  private nodes = new Map<number, ConversationNode>();
+  private head: number | null = null;
+  private nextId = 1;
+
+  constructor(data?: ConversationTreeData) {
+    if (data) {
+      data.nodes.forEach((node) => this.nodes.set(node.id, node));
+      this.head = data.head;
+      this.nextId = Math.max(0, ...data.nodes.map((n) => n.id)) + 1;
+    }
+  }
+
+  /**
+   * Build a single-branch tree from a list of messages
+   */
+  static fromMessages(messages: ChatMessage[]): ConversationTree {
+    const tree = new ConversationTree();
+    messages.forEach((message) => tree.append(message));
+    return tree;
+  }
+
+  /**
+   * Add a message after the head and make it the new head. Returns its node ID.
+   */
+  append(message: ChatMessage): number {
+    const id = this.nextId++;
+    this.nodes.set(id, { id, parent: this.head, message });
+    this.head = id;
+    return id;
+  }
+
+  /**
+   * Remove a node that has no children. The head moves to its parent if needed.
+   */
+  remove(id: number): void {
+    const node = this.nodes.get(id);
+    if (!node || this.getChildren(id).length > 0) {
+      return;
+    }
+    this.nodes.delete(id);
+    if (this.head === id) {
+      this.head = node.parent;
+    }
+  }
+
+  /**
+   * Move the head to another node (null means before the first message)
+   */
+  setHead(id: number | null): void {
+    if (id !== null && !this.nodes.has(id)) {
+      throw new Error(`Unknown message: ${id}`);
+    }
+    this.head = id;
+  }
+
+  /**
+   * Replace the system prompt at the start of the conversation. Every branch shares it.
+   */
+  setSystemPrompt(message: ChatMessage): void {
+    const roots = this.getChildren(null);
+    const system = roots.find((node) => node.message.role === 'system');
+    if (system) {
+      system.message = message;
+      return;
+    }
+
+    // No system prompt yet - insert one above the existing first messages
+    const id = this.nextId++;
+    this.nodes.set(id, { id, parent: null, message });
+    roots.forEach((node) => {
+      node.parent = id;
+    });
+    if (this.head === null) {
+      this.head = id;
+    }
+  }
+
+  getHead(): ConversationNode | undefined {
+    return this.head === null ? undefined : this.nodes.get(this.head);
+  }
+
+  /**
+   * Get the nodes from the first message down to the given node
+   */
+  getPath(id: number | null = this.head): ConversationNode[] {
+    const path: ConversationNode[] = [];
+    let node = id === null ? undefined : this.nodes.get(id);
+    while (node) {
+      path.unshift(node);
+      node = node.parent === null ? undefined : this.nodes.get(node.parent);
+    }
+    return path;
+  }
+
+  /**
+   * Get the messages on the active branch, oldest first
+   */
+  getMessages(): ChatMessage[] {
+    return this.getPath().map((node) => node.message);
+  }
+
+  /**
+   * Find the most recent message with the given role on the active branch
+   */
+  findLast(role: ChatMessage['role']): ConversationNode | undefined {
+    return this.getPath().reverse().find((node) => node.message.role === role);
+  }
+
+  /**
+   * Get the last node of every branch, in the order the branches were started
+   */
+  getLeaves(): ConversationNode[] {
+    const leaves: ConversationNode[] = [];
+    const visit = (node: ConversationNode) => {
+      const children = this.getChildren(node.id);
+      if (children.length === 0) {
+        leaves.push(node);
+      }
+      children.forEach(visit);
+    };
+    this.getChildren(null).forEach(visit);
+    return leaves;
+  }
+
+  /**
+   * Snapshot the tree for storage
+   */
+  toJSON(): ConversationTreeData {
+    return { nodes: [...this.nodes.values()], head: this.head };
+  }
+
+  private getChildren(id: number | null): ConversationNode[] {
+    return [...this.nodes.values()]
+      .filter((node) => node.parent === id)
+      .sort((a, b) => a.id - b.id);
+  }
+}
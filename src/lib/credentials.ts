@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { execSync } from 'child_process';
+
+// Format of an encrypted key file: AES-256-GCM with a key derived from the
+// passphrase by scrypt. Everything binary is base64.
+interface KeyFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+// Give up on a credential helper that has not answered by then
+const HELPER_TIMEOUT_MS = 30_000;
+
+// Helper: Derive the encryption key from a passphrase
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH);
+}
+
+/**
+ * Run a credential helper (e.g. "pass show megallm") and return the key it
+ * prints: the first line of its output. The helper can prompt on the terminal
+ * (stdin and stderr are passed through). Throws if it fails or prints nothing.
+ */
+export function runKeyCommand(command: string): string {
+  let output: string;
+  try {
+    output = execSync(command, {
+      encoding: 'utf-8',
+      stdio: ['inherit', 'pipe', 'inherit'],
+      timeout: HELPER_TIMEOUT_MS,
+    });
+  } catch (error) {
+    const status = (error as { status?: number | null }).status;
+    throw new Error(
+      status ? `apiKeyCommand exited with status ${status}` : `apiKeyCommand failed: ${(error as Error).message}`
+    );
+  }
+
+  const apiKey = output.split('\n')[0]?.trim();
+  if (!apiKey) {
+    throw new Error('apiKeyCommand printed nothing');
+  }
+  return apiKey;
+}
+
+/**
+ * Encrypt an API key with a passphrase and write it to a file only the current
+ * user can read.
+ */
+export function writeKeyFile(filePath: string, apiKey: string, passphrase: string): void {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(apiKey, 'utf-8'), cipher.final()]);
+
+  const contents: KeyFile = {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(contents, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
+
+/**
+ * Read and decrypt an API key file. Throws if the file is missing or damaged,
+ * or the passphrase is wrong.
+ */
+export function readKeyFile(filePath: string, passphrase: string): string {
+  let contents: KeyFile;
+  try {
+    contents = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as KeyFile;
+  } catch (error) {
+    throw new Error(`Could not read key file ${filePath}: ${(error as Error).message}`);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      deriveKey(passphrase, Buffer.from(contents.salt, 'base64')),
+      Buffer.from(contents.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(contents.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(contents.data, 'base64')), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error('Wrong passphrase, or the key file is damaged');
+  }
+}
@@ -0,0 +1,148 @@
+import OpenAI from 'openai';
+import { showError, printJson } from './ui.js';
+import type { APIError } from '../types/index.js';
+
+// Exit code for each kind of failure, so scripts can tell them apart.
+// Anything else that goes wrong exits with 1.
+export const EXIT_CODES: Record<APIError['type'], number> = {
+  validation: 2,
+  authentication: 3,
+  rate_limit: 4,
+  server: 5,
+};
+
+export function createError(
+  type: APIError['type'],
+  code: string,
+  message: string,
+  details?: Record<string, unknown>
+): APIError {
+  return { code, message, type, ...(details && { details }) };
+}
+
+// Helper: Seconds the API asked us to wait, from the Retry-After header
+// (seconds or an HTTP date) or the retry-after-ms header
+function getRetryAfter(headers: Record<string, string | null | undefined> | undefined): number | undefined {
+  const milliseconds = Number(headers?.['retry-after-ms']);
+  if (milliseconds > 0) {
+    return Math.ceil(milliseconds / 1000);
+  }
+
+  const header = headers?.['retry-after'];
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  const wait = Number.isNaN(seconds) ? (Date.parse(header) - Date.now()) / 1000 : seconds;
+  return wait > 0 ? Math.ceil(wait) : undefined;
+}
+
+/**
+ * Map an exception (usually from the OpenAI SDK, after its retries) to an
+ * APIError with a message that says what went wrong. The API's own explanation,
+ * when it sent one, is kept in brackets.
+ */
+export function toAPIError(error: unknown): APIError {
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return createError('server', 'timeout', 'MegaLLM did not respond in time');
+  }
+
+  if (error instanceof OpenAI.APIConnectionError) {
+    const cause = (error.cause as Error | undefined)?.message;
+    return createError('server', 'connection_error', `Could not connect to MegaLLM${cause ? ` (${cause})` : ''}`);
+  }
+
+  if (error instanceof OpenAI.APIError && error.status) {
+    const status = error.status;
+    const reason = (error.error as { message?: unknown } | undefined)?.message;
+    const explain = (message: string) => (typeof reason === 'string' && reason ? `${message} (${reason})` : message);
+    const retryAfter = getRetryAfter(error.headers);
+    const details = {
+      status: error.status,
+      ...(error.request_id && { requestId: error.request_id }),
+      ...(retryAfter !== undefined && { retryAfter }),
+    };
+
+    if (error.code === 'fixture_not_found') {
+      return createError('validation', 'fixture_not_found', String(reason), details);
+    }
+    if (status === 401) {
+      return createError('authentication', 'invalid_api_key', explain('Your API key was rejected'), details);
+    }
+    if (status === 403) {
+      return createError('authentication', 'permission_denied', explain('Your API key is not allowed to do this'), details);
+    }
+    if (status === 429 && error.code === 'insufficient_quota') {
+      return createError('rate_limit', 'insufficient_quota', explain('Your MegaLLM credits have run out'), details);
+    }
+    if (status === 429) {
+      return createError('rate_limit', 'rate_limited', explain('Rate limit reached'), details);
+    }
+    if (status === 404) {
+      return createError('validation', 'not_found', explain('Not found'), details);
+    }
+    if (status === 413 || error.code === 'context_length_exceeded') {
+      return createError('validation', 'context_length_exceeded', explain('The request is too long for the model'), details);
+    }
+    if (status >= 400 && status < 500) {
+      return createError('validation', 'bad_request', explain('The request was rejected'), details);
+    }
+    if (status === 502 || status === 503 || status === 504) {
+      return createError('server', 'unavailable', explain('MegaLLM is temporarily unavailable'), details);
+    }
+    return createError('server', 'server_error', explain('MegaLLM had an internal error'), details);
+  }
+
+  return createError('server', 'unknown_error', error instanceof Error ? error.message : String(error));
+}
+
+// What the user can do about each API failure
+const ERROR_HINTS: Record<string, string> = {
+  invalid_api_key: 'Check your key with "megacli auth status", or run "megacli auth login" to replace it',
+  permission_denied: 'Check that your plan includes this model at https://megallm.io/dashboard',
+  insufficient_quota: 'Add credits at https://megallm.io/dashboard',
+  rate_limited: 'Wait a moment and try again',
+  not_found: 'Check the model ("megacli models list") and the base URL ("megacli config get baseUrl")',
+  context_length_exceeded: 'Shorten the conversation or attachments, or use a model with a larger context window',
+  connection_error: 'Check your network connection and the base URL ("megacli config get baseUrl")',
+  timeout: 'Try again, or turn on streaming for long replies',
+  unavailable: 'MegaLLM may be having problems; try again shortly',
+  server_error: 'MegaLLM may be having problems; try again shortly',
+  fixture_not_found: 'Record it with --record, using the same command, model and settings',
+};
+
+// Suggest what to do about an API failure, if there is anything
+export function getErrorHint(error: APIError): string | undefined {
+  const retryAfter = error.details?.['retryAfter'];
+  if (error.code === 'rate_limited' && typeof retryAfter === 'number') {
+    return `Try again in ${retryAfter}s`;
+  }
+  return ERROR_HINTS[error.code];
+}
+
+// Report a failure without exiting, e.g. in an interactive session
+export function showAPIError(error: APIError): void {
+  showError(error.message, getErrorHint(error));
+}
+
+/**
+ * Report a file that could not be read or written (a saved item, or a file
+ * given with -o or --file) and exit.
+ */
+export function exitWithFileError(message: string, error: unknown, json: boolean): never {
+  exitWithAPIError(createError('validation', 'file_error', `${message} (${(error as Error).message})`), json);
+}
+
+/**
+ * Report a failure and exit with its code. With --json this prints a single
+ * {"error": {...}} document; otherwise a regular error message and the hint
+ * (by default, the suggestion for that kind of API failure).
+ */
+export function exitWithAPIError(error: APIError, json: boolean, hint = getErrorHint(error)): never {
+  if (json) {
+    printJson({ error });
+  } else {
+    showError(error.message, hint);
+  }
+  process.exit(EXIT_CODES[error.type]);
+}
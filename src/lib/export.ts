@@ -0,0 +1,246 @@
+import path from 'path';
+import { getModelDisplayName } from './models.js';
+import { tokenizeCode } from './highlight.js';
+import type { ChatMessage, ChatSessionRecord } from '../types/index.js';
+
+export type ExportFormat = 'md' | 'json' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'html'];
+
+const EXTENSION_FORMATS: Record<string, ExportFormat> = {
+  '.md': 'md',
+  '.markdown': 'md',
+  '.json': 'json',
+  '.html': 'html',
+  '.htm': 'html',
+};
+
+// Guess the export format from a file name
+export function formatFromPath(filePath: string): ExportFormat | undefined {
+  return EXTENSION_FORMATS[path.extname(filePath).toLowerCase()];
+}
+
+// Check a user-supplied format name
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+// Render a session in the requested format
+export function exportSession(record: ChatSessionRecord, format: ExportFormat): string {
+  switch (format) {
+    case 'json':
+      return exportJSON(record);
+    case 'html':
+      return exportHTML(record);
+    default:
+      return exportMarkdown(record);
+  }
+}
+
+function getSystemPrompt(record: ChatSessionRecord): string | undefined {
+  const systemMessages = record.messages.filter((m) => m.role === 'system');
+  return systemMessages.length > 0 ? systemMessages.map((m) => m.content).join('\n\n') : undefined;
+}
+
+function getConversation(record: ChatSessionRecord): ChatMessage[] {
+  return record.messages.filter((m) => m.role !== 'system');
+}
+
+function formatTimestamp(timestamp?: string): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : '';
+}
+
+function roleLabel(message: ChatMessage): string {
+  return message.role === 'user' ? 'You' : 'Assistant';
+}
+
+function usageSummary(record: ChatSessionRecord): string {
+  const { prompt, completion, total } = record.tokenUsage;
+  return `${total} (${prompt} prompt / ${completion} completion)`;
+}
+
+// JSON: stable, machine-readable document
+function exportJSON(record: ChatSessionRecord): string {
+  const document = {
+    id: record.id,
+    title: record.title,
+    model: record.model,
+    modelName: getModelDisplayName(record.model),
+    systemPrompt: getSystemPrompt(record) ?? null,
+    temperature: record.temperature,
+    maxTokens: record.maxTokens,
+    tokenUsage: record.tokenUsage,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    exportedAt: new Date().toISOString(),
+    messages: getConversation(record).map((m) => ({
+      role: m.role,
+      content: m.content,
+      timestamp: m.timestamp ?? null,
+      truncated: m.truncated ?? false,
+    })),
+  };
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+// Markdown: readable in code reviews and wikis
+function exportMarkdown(record: ChatSessionRecord): string {
+  const lines: string[] = [];
+
+  lines.push(`# ${record.title}`, '');
+  lines.push('| | |', '|---|---|');
+  lines.push(`| Model | ${getModelDisplayName(record.model)} |`);
+  lines.push(`| Temperature | ${record.temperature} |`);
+  lines.push(`| Max Tokens | ${record.maxTokens} |`);
+  lines.push(`| Tokens Used | ${usageSummary(record)} |`);
+  lines.push(`| Created | ${formatTimestamp(record.createdAt)} |`);
+  lines.push(`| Updated | ${formatTimestamp(record.updatedAt)} |`);
+  lines.push('');
+
+  const systemPrompt = getSystemPrompt(record);
+  if (systemPrompt) {
+    lines.push('## System Prompt', '');
+    lines.push(...systemPrompt.split('\n').map((line) => `> ${line}`));
+    lines.push('');
+  }
+
+  lines.push('## Conversation', '');
+  for (const message of getConversation(record)) {
+    const time = message.timestamp ? ` · ${formatTimestamp(message.timestamp)}` : '';
+    lines.push(`### ${roleLabel(message)}${time}`, '');
+    lines.push(message.content, '');
+    if (message.truncated) {
+      lines.push('_(reply was cut short)_', '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function highlightHTML(code: string, language?: string): string {
+  return tokenizeCode(code, language)
+    .map((token) =>
+      token.type === 'plain'
+        ? escapeHTML(token.text)
+        : `<span class="tok-${token.type}">${escapeHTML(token.text)}</span>`
+    )
+    .join('');
+}
+
+// Convert message Markdown to HTML: fenced code, inline code and paragraphs
+function renderMessageHTML(content: string): string {
+  const parts: string[] = [];
+  const fence = /```([\w+#.-]*)[^\n]*\n([\s\S]*?)(?:\n```|$)/g;
+  let lastIndex = 0;
+
+  const renderText = (text: string) => {
+    text
+      .split(/\n{2,}/)
+      .filter((paragraph) => paragraph.trim())
+      .forEach((paragraph) => {
+        const html = escapeHTML(paragraph.trim())
+          .replace(/`([^`\n]+)`/g, '<code>$1</code>')
+          .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+          .replace(/\n/g, '<br>\n');
+        parts.push(`<p>${html}</p>`);
+      });
+  };
+
+  for (const match of content.matchAll(fence)) {
+    const index = match.index ?? 0;
+    renderText(content.slice(lastIndex, index));
+
+    const language = match[1] || undefined;
+    const label = language ? `<div class="lang">${escapeHTML(language)}</div>` : '';
+    parts.push(`<pre>${label}<code>${highlightHTML(match[2] ?? '', language)}</code></pre>`);
+    lastIndex = index + match[0].length;
+  }
+  renderText(content.slice(lastIndex));
+
+  return parts.join('\n');
+}
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; background: #fff; line-height: 1.55; }
+  h1 { margin-bottom: 0.25rem; }
+  table.meta { border-collapse: collapse; margin: 1rem 0 2rem; font-size: 0.9rem; }
+  table.meta td { padding: 0.2rem 1rem 0.2rem 0; }
+  table.meta td:first-child { color: #656d76; }
+  .system { border-left: 4px solid #d0d7de; padding: 0.25rem 1rem; color: #656d76; white-space: pre-wrap; }
+  .message { border: 1px solid #d0d7de; border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+  .message.user { background: #f6f8fa; }
+  .message header { display: flex; justify-content: space-between; font-weight: 600; margin-bottom: 0.5rem; }
+  .message header time { font-weight: normal; color: #656d76; font-size: 0.85rem; }
+  .truncated { color: #9a6700; font-style: italic; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; background: rgba(175, 184, 193, 0.2); padding: 0.1em 0.3em; border-radius: 4px; }
+  pre { background: #0d1117; color: #e6edf3; padding: 0.75rem 1rem; border-radius: 6px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  pre .lang { color: #7d8590; font-size: 0.75rem; margin-bottom: 0.5rem; }
+  .tok-keyword { color: #ff7b72; }
+  .tok-string { color: #a5d6ff; }
+  .tok-comment { color: #8b949e; font-style: italic; }
+  .tok-number { color: #79c0ff; }
+`;
+
+// HTML: a single self-contained page with inline styles
+function exportHTML(record: ChatSessionRecord): string {
+  const meta: Array<[string, string]> = [
+    ['Model', getModelDisplayName(record.model)],
+    ['Temperature', String(record.temperature)],
+    ['Max Tokens', String(record.maxTokens)],
+    ['Tokens Used', usageSummary(record)],
+    ['Created', formatTimestamp(record.createdAt)],
+    ['Updated', formatTimestamp(record.updatedAt)],
+  ];
+
+  const body: string[] = [];
+  body.push(`<h1>${escapeHTML(record.title)}</h1>`);
+  body.push('<table class="meta">');
+  meta.forEach(([label, value]) => {
+    body.push(`<tr><td>${label}</td><td>${escapeHTML(value)}</td></tr>`);
+  });
+  body.push('</table>');
+
+  const systemPrompt = getSystemPrompt(record);
+  if (systemPrompt) {
+    body.push('<h2>System Prompt</h2>');
+    body.push(`<div class="system">${escapeHTML(systemPrompt)}</div>`);
+  }
+
+  body.push('<h2>Conversation</h2>');
+  for (const message of getConversation(record)) {
+    const time = message.timestamp
+      ? `<time datetime="${escapeHTML(message.timestamp)}">${escapeHTML(formatTimestamp(message.timestamp))}</time>`
+      : '';
+    body.push(`<section class="message ${message.role}">`);
+    body.push(`<header><span>${roleLabel(message)}</span>${time}</header>`);
+    body.push(renderMessageHTML(message.content));
+    if (message.truncated) {
+      body.push('<p class="truncated">(reply was cut short)</p>');
+    }
+    body.push('</section>');
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(record.title)} - MegaCLI</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${body.join('\n')}
+<footer><p><small>Exported from MegaCLI on ${escapeHTML(new Date().toLocaleString())}</small></p></footer>
+</body>
+</html>
+`;
+}
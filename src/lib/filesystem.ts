@@ -1,6 +1,6 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { glob } from 'glob';
+import { glob, escape } from 'glob';
 
 export interface FileInfo {
   path: string;
@@ -19,11 +19,17 @@ export interface FileSearchResult {
   }>;
 }
 
+// Left out of file searches unless a search gives its own ignore list
+const DEFAULT_IGNORE = ['**/node_modules/**', '**/dist/**', '**/.git/**', '**/build/**'];
+
 export class FileSystemManager {
   private workingDirectory: string;
+  // Extra globs to leave out of searches and listings (the ignore setting)
+  private ignore: string[];
 
-  constructor(workingDir: string = process.cwd()) {
+  constructor(workingDir: string = process.cwd(), ignore: string[] = []) {
     this.workingDirectory = path.resolve(workingDir);
+    this.ignore = ignore;
   }
 
   /**
@@ -52,6 +58,40 @@ export class FileSystemManager {
     }
   }
 
+  /**
+   * Read a text file, refusing binary files and files larger than maxBytes
+   */
+  async readTextFile(filePath: string, maxBytes: number): Promise<string> {
+    const validPath = this.validatePath(filePath);
+
+    let stats;
+    try {
+      stats = await fs.stat(validPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      throw error;
+    }
+
+    if (stats.isDirectory()) {
+      throw new Error(`Not a file: ${filePath}`);
+    }
+    if (stats.size > maxBytes) {
+      throw new Error(
+        `File too large: ${filePath} (${Math.ceil(stats.size / 1024)} KB, limit ${Math.floor(maxBytes / 1024)} KB)`
+      );
+    }
+
+    const buffer = await fs.readFile(validPath);
+    // Treat files with NUL bytes near the start as binary
+    if (buffer.subarray(0, 8000).includes(0)) {
+      throw new Error(`Binary file not supported: ${filePath}`);
+    }
+
+    return buffer.toString('utf-8');
+  }
+
   /**
    * Write content to file
    */
@@ -115,16 +155,32 @@ export class FileSystemManager {
     return fileInfos;
   }
 
+  /**
+   * List files in directory, leaving out those matched by the ignore globs
+   */
+  async listVisible(dirPath: string = '.'): Promise<FileInfo[]> {
+    const entries = await this.listDirectory(dirPath);
+    if (this.ignore.length === 0) {
+      return entries;
+    }
+
+    const toPosix = (filePath: string) => filePath.split(path.sep).join('/');
+    const visible = new Set(
+      // Escaped, so folders like [id] are not read as globs
+      await glob(path.posix.join(escape(toPosix(dirPath)), '*'), {
+        cwd: this.workingDirectory,
+        ignore: this.ignore,
+        dot: true,
+      })
+    );
+    return entries.filter((entry) => visible.has(toPosix(entry.path)));
+  }
+
   /**
    * Search for files matching a pattern
    */
   async findFiles(pattern: string, options?: { ignore?: string[] }): Promise<string[]> {
-    const ignorePatterns = options?.ignore || [
-      '**/node_modules/**',
-      '**/dist/**',
-      '**/.git/**',
-      '**/build/**',
-    ];
+    const ignorePatterns = options?.ignore || [...DEFAULT_IGNORE, ...this.ignore];
 
     const files = await glob(pattern, {
       cwd: this.workingDirectory,
@@ -0,0 +1,187 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import type { Fetch } from '../types/index.js';
+
+type FetchResponse = Awaited<ReturnType<Fetch>>;
+
+export type FixtureMode = 'record' | 'replay';
+
+interface FixtureOptions {
+  record?: string;
+  replay?: string;
+}
+
+// One recorded API exchange. Request headers (and so the API key) are never saved.
+export interface Fixture {
+  request: { method: string; path: string; body?: unknown };
+  response: { status: number; headers: Record<string, string>; body: string };
+}
+
+// Response headers worth keeping: the ones megacli reads
+const KEPT_HEADERS = ['content-type', 'x-request-id', 'retry-after', 'retry-after-ms'];
+
+// Helper: Parse a request body for the fixture file, so it reads as JSON
+function parseBody(body: string | undefined): unknown {
+  if (body === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Name of the fixture file for a request: the endpoint (e.g. "chat-completions"),
+ * then a hash of the method, path and body. The same request always gets the same file.
+ */
+export function fixtureName(method: string, url: string, body: string | undefined): string {
+  const { pathname, search } = new URL(url);
+  const endpoint = pathname
+    .split('/')
+    .filter((segment) => segment && !/^v\d+$/.test(segment))
+    .join('-');
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${method} ${pathname}${search}\n${body ?? ''}`)
+    .digest('hex')
+    .substring(0, 16);
+  return `${endpoint || 'root'}-${hash}.json`;
+}
+
+/**
+ * Record and replay for --record and --replay. Recording saves each API response
+ * to a JSON file in a folder as it arrives; replaying answers each request from
+ * that folder, without a network connection or an API key.
+ */
+class FixtureStore {
+  private mode: FixtureMode | undefined;
+  private dir: string | undefined;
+
+  /**
+   * Set up from the global options. Throws if both are given, or the replay
+   * folder does not exist.
+   */
+  configure(options: FixtureOptions): void {
+    if (options.record && options.replay) {
+      throw new Error('Use either --record or --replay, not both');
+    }
+
+    const dir = options.record ?? options.replay;
+    this.mode = options.record ? 'record' : options.replay ? 'replay' : undefined;
+    this.dir = dir ? path.resolve(dir) : undefined;
+
+    if (this.mode === 'replay' && !fs.existsSync(this.dir!)) {
+      throw new Error(`Fixture folder not found: ${this.dir}`);
+    }
+    if (this.mode === 'record') {
+      fs.mkdirSync(this.dir!, { recursive: true });
+    }
+  }
+
+  get currentMode(): FixtureMode | undefined {
+    return this.mode;
+  }
+
+  get directory(): string | undefined {
+    return this.dir;
+  }
+
+  // Whether requests are answered from fixtures instead of the API
+  get replaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  /**
+   * Wrap the fetch the client sends requests with, to record its responses or
+   * replay them instead. Without --record or --replay, fetch is returned as is.
+   */
+  wrap(fetch: Fetch): Fetch {
+    if (this.mode === 'replay') {
+      return async (url, init) => this.replay(String(url), init?.method ?? 'GET', init?.body);
+    }
+    if (this.mode === 'record') {
+      return async (url, init) => this.record(fetch, String(url), init);
+    }
+    return fetch;
+  }
+
+  // Answer a request from its fixture file
+  private replay(url: string, method: string, body: unknown): FetchResponse {
+    const name = fixtureName(method, url, typeof body === 'string' ? body : undefined);
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(fs.readFileSync(path.join(this.dir!, name), 'utf-8')) as Fixture;
+    } catch {
+      // Reported like an API error, without retries
+      return new Response(
+        JSON.stringify({
+          error: {
+            message: `No recorded response for ${method} ${new URL(url).pathname} in ${this.dir} (${name})`,
+            type: 'fixture_error',
+            code: 'fixture_not_found',
+          },
+        }),
+        { status: 404, headers: { 'content-type': 'application/json', 'x-should-retry': 'false' } }
+      ) as unknown as FetchResponse;
+    }
+
+    // A recorded failure would only fail the same way again, so it is not retried
+    return new Response(fixture.response.body, {
+      status: fixture.response.status,
+      headers: { ...fixture.response.headers, ...(fixture.response.status >= 400 && { 'x-should-retry': 'false' }) },
+    }) as unknown as FetchResponse;
+  }
+
+  // Send a request and save the response as it streams through. The fixture is
+  // written before the caller sees the end of the response.
+  private async record(fetch: Fetch, url: string, init: Parameters<Fetch>[1]): Promise<FetchResponse> {
+    const method = init?.method ?? 'GET';
+    const requestBody = typeof init?.body === 'string' ? init.body : undefined;
+    const response = await fetch(url, init);
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    const kept = Object.fromEntries(Object.entries(headers).filter(([name]) => KEPT_HEADERS.includes(name)));
+
+    const save = (body: string) => {
+      const fixture: Fixture = {
+        request: { method, path: new URL(url).pathname, body: parseBody(requestBody) },
+        response: { status: response.status, headers: kept, body },
+      };
+      fs.writeFileSync(
+        path.join(this.dir!, fixtureName(method, url, requestBody)),
+        JSON.stringify(fixture, null, 2) + '\n',
+        'utf-8'
+      );
+    };
+
+    const source = response.body as AsyncIterable<Uint8Array> | null;
+    if (!source) {
+      save('');
+      return response;
+    }
+
+    async function* passThrough() {
+      const chunks: Buffer[] = [];
+      for await (const chunk of source!) {
+        chunks.push(Buffer.from(chunk));
+        yield chunk;
+      }
+      save(Buffer.concat(chunks).toString('utf-8'));
+    }
+
+    return new Response(Readable.toWeb(Readable.from(passThrough())) as ReadableStream, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    }) as unknown as FetchResponse;
+  }
+}
+
+export const fixtures = new FixtureStore();
@@ -0,0 +1,211 @@
+// Lightweight syntax tokenizer shared by the terminal renderer and HTML export.
+// It is intentionally regex-based: good enough to color keywords, strings,
+// comments and numbers without pulling in a full grammar engine.
+
+export type CodeTokenType = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+interface LanguageSpec {
+  keywords: string[];
+  lineComments?: string[];
+  blockComment?: [string, string];
+  backtickStrings?: boolean;
+}
+
+const C_LIKE_COMMENTS: Pick<LanguageSpec, 'lineComments' | 'blockComment'> = {
+  lineComments: ['//'],
+  blockComment: ['/*', '*/'],
+};
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default',
+  'delete', 'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from',
+  'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'null', 'of', 'return',
+  'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined',
+  'var', 'void', 'while', 'yield',
+];
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  javascript: { keywords: JS_KEYWORDS, ...C_LIKE_COMMENTS, backtickStrings: true },
+  typescript: {
+    keywords: [
+      ...JS_KEYWORDS,
+      'abstract', 'as', 'declare', 'enum', 'implements', 'interface', 'keyof', 'namespace',
+      'private', 'protected', 'public', 'readonly', 'type', 'satisfies',
+    ],
+    ...C_LIKE_COMMENTS,
+    backtickStrings: true,
+  },
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+      'elif', 'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import',
+      'in', 'is', 'lambda', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return',
+      'True', 'try', 'while', 'with', 'yield',
+    ],
+    lineComments: ['#'],
+  },
+  shell: {
+    keywords: [
+      'case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if',
+      'in', 'local', 'return', 'then', 'until', 'while',
+    ],
+    lineComments: ['#'],
+  },
+  go: {
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false',
+      'for', 'func', 'go', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range',
+      'return', 'select', 'struct', 'switch', 'true', 'type', 'var',
+    ],
+    ...C_LIKE_COMMENTS,
+    backtickStrings: true,
+  },
+  rust: {
+    keywords: [
+      'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'false',
+      'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub',
+      'ref', 'return', 'self', 'Self', 'static', 'struct', 'trait', 'true', 'type', 'use',
+      'where', 'while',
+    ],
+    ...C_LIKE_COMMENTS,
+  },
+  java: {
+    keywords: [
+      'abstract', 'boolean', 'break', 'case', 'catch', 'class', 'else', 'extends', 'false',
+      'final', 'finally', 'for', 'if', 'implements', 'import', 'int', 'interface', 'new',
+      'null', 'package', 'private', 'protected', 'public', 'return', 'static', 'super',
+      'switch', 'this', 'throw', 'throws', 'true', 'try', 'void', 'while',
+    ],
+    ...C_LIKE_COMMENTS,
+  },
+  c: {
+    keywords: [
+      'auto', 'break', 'case', 'char', 'class', 'const', 'continue', 'default', 'do',
+      'double', 'else', 'enum', 'extern', 'float', 'for', 'if', 'int', 'long', 'namespace',
+      'return', 'short', 'sizeof', 'static', 'struct', 'switch', 'typedef', 'union',
+      'unsigned', 'void', 'while',
+    ],
+    ...C_LIKE_COMMENTS,
+  },
+  sql: {
+    keywords: [
+      'and', 'as', 'by', 'create', 'delete', 'from', 'group', 'having', 'insert', 'into',
+      'join', 'left', 'limit', 'not', 'null', 'on', 'or', 'order', 'select', 'set', 'table',
+      'update', 'values', 'where',
+      'AND', 'AS', 'BY', 'CREATE', 'DELETE', 'FROM', 'GROUP', 'HAVING', 'INSERT', 'INTO',
+      'JOIN', 'LEFT', 'LIMIT', 'NOT', 'NULL', 'ON', 'OR', 'ORDER', 'SELECT', 'SET', 'TABLE',
+      'UPDATE', 'VALUES', 'WHERE',
+    ],
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+  },
+  json: { keywords: ['true', 'false', 'null'] },
+  yaml: { keywords: ['true', 'false', 'null', 'yes', 'no'], lineComments: ['#'] },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  console: 'shell',
+  golang: 'go',
+  rs: 'rust',
+  kotlin: 'java',
+  cpp: 'c',
+  'c++': 'c',
+  csharp: 'c',
+  cs: 'c',
+  h: 'c',
+  yml: 'yaml',
+  jsonc: 'json',
+};
+
+// Resolve a fence label like "ts" or "bash" to a known language name
+export function resolveLanguage(language?: string): string | undefined {
+  if (!language) return undefined;
+  const normalized = language.trim().toLowerCase();
+  const name = LANGUAGE_ALIASES[normalized] || normalized;
+  return LANGUAGES[name] ? name : undefined;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Split code into typed tokens. Unknown languages come back as a single plain token.
+export function tokenizeCode(code: string, language?: string): CodeToken[] {
+  const name = resolveLanguage(language);
+  const spec = name ? LANGUAGES[name] : undefined;
+  if (!spec) {
+    return [{ type: 'plain', text: code }];
+  }
+
+  const patterns: string[] = [];
+  if (spec.blockComment) {
+    const [start, end] = spec.blockComment;
+    patterns.push(`(?<comment>${escapeRegExp(start)}[\\s\\S]*?(?:${escapeRegExp(end)}|$))`);
+  }
+  for (const marker of spec.lineComments || []) {
+    patterns.push(`(?<line${patterns.length}>${escapeRegExp(marker)}[^\\n]*)`);
+  }
+  const strings = [`"(?:\\\\.|[^"\\\\\\n])*"`, `'(?:\\\\.|[^'\\\\\\n])*'`];
+  if (spec.backtickStrings) {
+    strings.push('`(?:\\\\.|[^`\\\\])*`');
+  }
+  patterns.push(`(?<string>${strings.join('|')})`);
+  patterns.push(`(?<number>\\b\\d+(?:\\.\\d+)?\\b)`);
+  patterns.push(`(?<word>[A-Za-z_$][\\w$]*)`);
+
+  const keywords = new Set(spec.keywords);
+  const regex = new RegExp(patterns.join('|'), 'g');
+  const tokens: CodeToken[] = [];
+  let lastIndex = 0;
+
+  const push = (type: CodeTokenType, text: string) => {
+    const previous = tokens[tokens.length - 1];
+    if (previous && previous.type === type) {
+      previous.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  for (const match of code.matchAll(regex)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      push('plain', code.slice(lastIndex, index));
+    }
+
+    const groups = match.groups || {};
+    const text = match[0];
+    if (groups['string'] !== undefined) {
+      push('string', text);
+    } else if (groups['number'] !== undefined) {
+      push('number', text);
+    } else if (groups['word'] !== undefined) {
+      push(keywords.has(text) ? 'keyword' : 'plain', text);
+    } else {
+      push('comment', text);
+    }
+
+    lastIndex = index + text.length;
+  }
+
+  if (lastIndex < code.length) {
+    push('plain', code.slice(lastIndex));
+  }
+
+  return tokens;
+}
@@ -0,0 +1,134 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { configManager } from './config.js';
+import type { ChatSessionRecord } from '../types/index.js';
+
+export class HistoryManager {
+  private historyDir: string;
+
+  constructor(historyDir?: string) {
+    // Sessions live next to the conf config file
+    this.historyDir =
+      historyDir || path.join(path.dirname(configManager.getConfigPath()), 'history');
+  }
+
+  /**
+   * Generate a new short session ID
+   */
+  createId(): string {
+    return randomBytes(4).toString('hex');
+  }
+
+  /**
+   * Save (create or overwrite) a session
+   */
+  async save(record: ChatSessionRecord): Promise<void> {
+    await fs.mkdir(this.historyDir, { recursive: true });
+
+    // Write to a temp file first so an interrupted write never corrupts a session
+    const filePath = this.getSessionPath(record.id);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(record, null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Load a session by ID or unique ID prefix
+   */
+  async load(id: string): Promise<ChatSessionRecord> {
+    const resolvedId = await this.resolveId(id);
+    const content = await fs.readFile(this.getSessionPath(resolvedId), 'utf-8');
+    return JSON.parse(content) as ChatSessionRecord;
+  }
+
+  /**
+   * List all saved sessions, most recently updated first
+   */
+  async list(): Promise<ChatSessionRecord[]> {
+    const sessions: ChatSessionRecord[] = [];
+
+    for (const id of await this.listIds()) {
+      try {
+        const content = await fs.readFile(this.getSessionPath(id), 'utf-8');
+        sessions.push(JSON.parse(content) as ChatSessionRecord);
+      } catch {
+        // Skip unreadable or corrupt session files
+        continue;
+      }
+    }
+
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Get the most recently updated session
+   */
+  async latest(): Promise<ChatSessionRecord | undefined> {
+    const sessions = await this.list();
+    return sessions[0];
+  }
+
+  /**
+   * Delete a session by ID or unique ID prefix. Returns the deleted ID.
+   */
+  async delete(id: string): Promise<string> {
+    const resolvedId = await this.resolveId(id);
+    await fs.unlink(this.getSessionPath(resolvedId));
+    return resolvedId;
+  }
+
+  /**
+   * Get the history directory
+   */
+  getHistoryDir(): string {
+    return this.historyDir;
+  }
+
+  /**
+   * Resolve a full session ID from an ID or prefix
+   */
+  private async resolveId(id: string): Promise<string> {
+    const ids = await this.listIds();
+    if (ids.includes(id)) {
+      return id;
+    }
+
+    const matches = ids.filter((existing) => existing.startsWith(id));
+    if (matches.length === 0) {
+      throw new Error(`Session not found: ${id}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Ambiguous session ID "${id}" matches: ${matches.join(', ')}`);
+    }
+    return matches[0]!;
+  }
+
+  private async listIds(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.historyDir);
+      return entries.filter((f) => f.endsWith('.json')).map((f) => path.basename(f, '.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private getSessionPath(id: string): string {
+    return path.join(this.historyDir, `${id}.json`);
+  }
+}
+
+// Export singleton instance
+export const historyManager = new HistoryManager();
+
+// Helper to derive a session title from its first user message
+export function deriveSessionTitle(record: Pick<ChatSessionRecord, 'messages'>): string {
+  const firstUser = record.messages.find((m) => m.role === 'user');
+  if (!firstUser) return 'Untitled session';
+
+  const line = firstUser.content.trim().split('\n')[0] ?? '';
+  return line.length > 60 ? `${line.substring(0, 57)}...` : line;
+}
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import readline from 'readline';
+import inquirer from 'inquirer';
+import { colors } from './ui.js';
+import { createError, exitWithAPIError } from './errors.js';
+
+// Typed on its own line to start and end a multiline block
+export const BLOCK_DELIMITER = '"""';
+
+const CONTINUATION_PROMPT = '… ';
+
+// Ask for a single line of input
+async function askLine(message: string): Promise<string> {
+  const { line } = await inquirer.prompt<{ line: string }>({
+    type: 'input',
+    name: 'line',
+    message,
+  });
+  return line;
+}
+
+// Read raw lines until the closing delimiter. A single readline interface consumes
+// everything, so pasted text is never split across prompts.
+function readBlock(): Promise<string> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      prompt: colors.muted(CONTINUATION_PROMPT),
+    });
+    const lines: string[] = [];
+
+    rl.on('line', (line) => {
+      if (line.trim() === BLOCK_DELIMITER) {
+        rl.close();
+        resolve(lines.join('\n'));
+        return;
+      }
+      lines.push(line);
+      rl.prompt();
+    });
+
+    // Ctrl+C abandons the block
+    rl.on('SIGINT', () => {
+      rl.close();
+      console.log(colors.muted('\n(block cancelled)'));
+      resolve('');
+    });
+
+    console.log(colors.muted(`Multiline mode - finish with ${BLOCK_DELIMITER} on its own line`));
+    rl.prompt();
+  });
+}
+
+/**
+ * Prompt for a message that may span several lines:
+ * - end a line with "\" to continue on the next line
+ * - type """ on its own line to paste or type a block, closed by another """
+ */
+export async function promptMessage(message: string): Promise<string> {
+  let line = await askLine(message);
+
+  if (line.trim() === BLOCK_DELIMITER) {
+    return readBlock();
+  }
+
+  const lines: string[] = [];
+  while (line.endsWith('\\')) {
+    lines.push(line.slice(0, -1));
+    line = await askLine(colors.muted(CONTINUATION_PROMPT));
+  }
+  lines.push(line);
+
+  return lines.join('\n');
+}
+
+/**
+ * Compose a message in $VISUAL / $EDITOR. Returns the saved text, trimmed.
+ */
+export async function composeInEditor(initial: string = ''): Promise<string> {
+  const { text } = await inquirer.prompt<{ text: string }>({
+    type: 'editor',
+    name: 'text',
+    message: 'Compose your message',
+    default: initial,
+    postfix: '.md',
+    waitForUseInput: false,
+  });
+  return text.trim();
+}
+
+/**
+ * Ask for a passphrase without echoing it.
+ */
+export async function promptPassphrase(message: string): Promise<string> {
+  const { passphrase } = await inquirer.prompt<{ passphrase: string }>({
+    type: 'password',
+    name: 'passphrase',
+    message,
+    mask: '*',
+  });
+  return passphrase;
+}
+
+/**
+ * Ask before deleting something (question defaults to "Delete <what>?"). Returns
+ * false if the user says no. --json is for scripts, where there is no one to
+ * answer, so there the deletion fails unless --yes was given.
+ */
+export async function confirmDeletion(
+  what: string,
+  options: { yes?: boolean; json: boolean },
+  question = `Delete ${what}?`
+): Promise<boolean> {
+  if (options.yes) {
+    return true;
+  }
+  if (options.json) {
+    exitWithAPIError(
+      createError('validation', 'confirmation_required', `Deleting ${what} needs confirmation`),
+      true,
+      'Add --yes to delete it without asking'
+    );
+  }
+
+  const { confirm } = await inquirer.prompt<{ confirm: boolean }>({
+    type: 'confirm',
+    name: 'confirm',
+    message: question,
+    default: false,
+  });
+  if (!confirm) {
+    console.log(colors.muted('Delete cancelled'));
+  }
+  return confirm;
+}
+
+/**
+ * Read everything piped to stdin. Returns an empty string unless stdin is a pipe
+ * or a file: a terminal, or a stream inherited from an IDE, git hook or CI
+ * runner that is never closed, would otherwise be waited on forever.
+ */
+export async function readPipedInput(): Promise<string> {
+  try {
+    const stats = fs.fstatSync(0);
+    if (!stats.isFIFO() && !stats.isFile()) {
+      return '';
+    }
+  } catch {
+    // No stdin at all
+    return '';
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
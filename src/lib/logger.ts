@@ -0,0 +1,173 @@
+import fs from 'fs';
+import path from 'path';
+import { configManager, maskApiKey } from './config.js';
+import { colors } from './ui.js';
+import type { Fetch } from '../types/index.js';
+
+interface LoggerOptions {
+  verbose?: boolean;
+  logFile?: string;
+}
+
+interface UsageData {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// MegaLLM keys, wherever they appear (command lines, URLs, payloads, errors).
+// Keys that are already masked are left alone.
+const API_KEY_PATTERN = /sk-mega-[\w-]+(?![\w*-])/g;
+
+// Mask API keys in text the same way "auth status" shows them
+export function redact(text: string): string {
+  const apiKey = configManager.peekApiKey();
+  const masked = apiKey ? text.split(apiKey).join(maskApiKey(apiKey)) : text;
+  return masked.replace(API_KEY_PATTERN, (key) => maskApiKey(key));
+}
+
+/**
+ * Debug logger for --verbose and --log-file. Verbose lines go to stderr so they
+ * never mix with command output; the log file gets the same lines, timestamped.
+ */
+class Logger {
+  private verbose = false;
+  private logFile: string | undefined;
+
+  /**
+   * Set up logging from the global options. Starts the log file with the command line.
+   */
+  configure(options: LoggerOptions): void {
+    this.verbose = options.verbose ?? false;
+    this.logFile = options.logFile ? path.resolve(options.logFile) : undefined;
+
+    if (this.logFile) {
+      this.write(redact(`megacli ${process.argv.slice(2).join(' ')} (node ${process.version}, ${process.platform})`));
+    }
+  }
+
+  get enabled(): boolean {
+    return this.verbose || this.logFile !== undefined;
+  }
+
+  /**
+   * Log a debug line. API keys are masked before anything is written.
+   */
+  debug(message: string): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const line = redact(message);
+    if (this.verbose) {
+      console.error(colors.muted(`[debug] ${line}`));
+    }
+    if (this.logFile) {
+      this.write(line);
+    }
+  }
+
+  private write(line: string): void {
+    try {
+      fs.appendFileSync(this.logFile!, `${new Date().toISOString()} ${line}\n`, 'utf-8');
+    } catch {
+      // Logging must never break a command
+    }
+  }
+}
+
+export const logger = new Logger();
+
+let requestCount = 0;
+
+// Error bodies are cut off after this many characters
+const MAX_LOGGED_BODY = 500;
+
+// Helper: Summarize a request body - the model and parameters, but not the conversation
+function describePayload(body: string): string {
+  try {
+    const { messages, ...params } = JSON.parse(body) as { messages?: unknown[] };
+    const summary = Array.isArray(messages) ? ` (${messages.length} message(s))` : '';
+    return `${JSON.stringify(params)}${summary}`;
+  } catch {
+    return `${body.length} byte(s)`;
+  }
+}
+
+// Helper: Find token usage in a JSON response or a stream of server-sent events
+function findUsage(body: string): UsageData | undefined {
+  const documents = body.trimStart().startsWith('{')
+    ? [body]
+    : body.split('\n').filter((line) => line.startsWith('data: {')).map((line) => line.substring(6));
+
+  let usage: UsageData | undefined;
+  for (const document of documents) {
+    try {
+      usage = (JSON.parse(document) as { usage?: UsageData }).usage ?? usage;
+    } catch {
+      // Not JSON - nothing to report
+    }
+  }
+  return usage;
+}
+
+/**
+ * Wrap the fetch the OpenAI client sends requests with, to log every request:
+ * method, URL, model and parameters, status, latency, request ID, retry attempt
+ * and token usage.
+ */
+export function withLogging(transport: Fetch): Fetch {
+  return async (url, init) => {
+    if (!logger.enabled) {
+      return transport(url, init);
+    }
+
+    const tag = `[#${++requestCount}]`;
+    const method = init?.method ?? 'GET';
+    const headers = (init?.headers ?? {}) as Record<string, string>;
+    // The SDK retries failed requests itself and numbers each attempt
+    const retry = Number(headers['x-stainless-retry-count'] ?? 0);
+
+    logger.debug(`${tag} → ${method} ${String(url)}${retry > 0 ? ` (retry ${retry})` : ''}`);
+    if (typeof init?.body === 'string') {
+      logger.debug(`${tag}   payload: ${describePayload(init.body)}`);
+    }
+
+    const started = Date.now();
+    let response: Awaited<ReturnType<Fetch>>;
+    try {
+      response = await transport(url, init);
+    } catch (error) {
+      logger.debug(`${tag} ✗ failed after ${Date.now() - started}ms: ${(error as Error).message}`);
+      throw error;
+    }
+
+    const requestId = response.headers.get('x-request-id');
+    logger.debug(
+      `${tag} ← ${response.status} ${response.statusText} in ${Date.now() - started}ms` +
+      (requestId ? ` (request ID ${requestId})` : '')
+    );
+
+    // Read a copy of the body in the background: usage once a reply completes, or
+    // the error the API sent back
+    response
+      .clone()
+      .text()
+      .then((body) => {
+        if (!response.ok) {
+          logger.debug(`${tag}   error body: ${body.substring(0, MAX_LOGGED_BODY)}`);
+          return;
+        }
+        const usage = findUsage(body);
+        const tokens = usage
+          ? `, ${usage.prompt_tokens} prompt + ${usage.completion_tokens} completion = ${usage.total_tokens} tokens`
+          : '';
+        logger.debug(`${tag}   completed in ${Date.now() - started}ms${tokens}`);
+      })
+      .catch(() => {
+        // Cancelled or failed mid-stream - the SDK reports that itself
+      });
+
+    return response;
+  };
+}
@@ -0,0 +1,211 @@
+import { MEGALLM_MODELS } from './models.js';
+import { estimateMessageTokens, estimateTokens } from './tokens.js';
+import type { Fetch } from '../types/index.js';
+
+type FetchResponse = Awaited<ReturnType<Fetch>>;
+
+interface MockRequest {
+  model?: string;
+  messages?: Array<{ role: string; content?: unknown }>;
+  max_tokens?: number;
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+}
+
+interface MockFailure {
+  status: number;
+  message: string;
+  code?: string;
+  headers?: Record<string, string>;
+}
+
+// Base URL that selects the mock provider ("--provider mock")
+export const MOCK_BASE_URL = 'mock://';
+
+// Where the client sends mock requests, whatever mock:// URL was configured: the
+// same paths as the real API, so fixtures recorded from either one match
+export const MOCK_API_URL = 'mock://megallm/v1';
+
+// Sent as the API key when no real one is needed
+export const OFFLINE_API_KEY = 'sk-mega-offline';
+
+// Failures MEGACLI_MOCK_ERROR can simulate, named after the error codes megacli reports.
+// "timeout" and "connection_error" fail before any response arrives.
+export const MOCK_ERRORS: Record<string, MockFailure> = {
+  invalid_api_key: { status: 401, message: 'Incorrect API key provided', code: 'invalid_api_key' },
+  permission_denied: { status: 403, message: 'This key cannot use this model' },
+  insufficient_quota: { status: 429, message: 'You exceeded your current quota', code: 'insufficient_quota' },
+  rate_limited: { status: 429, message: 'Too many requests', headers: { 'retry-after': '1' } },
+  not_found: { status: 404, message: 'The model does not exist' },
+  context_length_exceeded: {
+    status: 400,
+    message: 'The messages exceed the context window',
+    code: 'context_length_exceeded',
+  },
+  bad_request: { status: 400, message: 'Invalid request' },
+  server_error: { status: 500, message: 'Internal server error' },
+  unavailable: { status: 503, message: 'Service unavailable' },
+};
+
+const CONNECTION_ERRORS = ['timeout', 'connection_error'];
+
+// Whether a base URL selects the mock provider
+export function isMockUrl(url: string | undefined): boolean {
+  return url?.startsWith('mock:') ?? false;
+}
+
+// Helper: A JSON response. Errors tell the SDK not to retry, since a mock failure
+// would only fail the same way again.
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): FetchResponse {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'content-type': 'application/json',
+      'x-request-id': 'mock',
+      ...(status >= 400 && { 'x-should-retry': 'false' }),
+      ...headers,
+    },
+  }) as unknown as FetchResponse;
+}
+
+// Helper: An error response in the API's format
+function errorResponse(failure: MockFailure): FetchResponse {
+  return jsonResponse(
+    failure.status,
+    { error: { message: failure.message, type: 'mock_error', code: failure.code ?? null } },
+    failure.headers
+  );
+}
+
+// Helper: The failure MEGACLI_MOCK_ERROR asks for. Throws for the failures that
+// happen before a response, the way fetch does.
+function simulateFailure(name: string): FetchResponse {
+  if (name === 'timeout') {
+    const error = new Error('The mock request timed out');
+    error.name = 'AbortError';
+    throw error;
+  }
+  if (name === 'connection_error') {
+    throw new Error('The mock provider refused the connection');
+  }
+
+  return errorResponse(
+    MOCK_ERRORS[name] ?? {
+      status: 400,
+      message: `Unknown MEGACLI_MOCK_ERROR: ${name} (use ${[...Object.keys(MOCK_ERRORS), ...CONNECTION_ERRORS].join(', ')})`,
+    }
+  );
+}
+
+// Helper: The text of a message's content (text parts of multimodal messages)
+function textOf(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return (content as Array<{ type?: string; text?: string }>)
+      .filter((part) => part.type === 'text')
+      .map((part) => part.text ?? '')
+      .join('\n');
+  }
+  return '';
+}
+
+// Helper: The reply to send - MEGACLI_MOCK_REPLY, or the last user message echoed back
+function buildReply(request: MockRequest): string {
+  const canned = process.env['MEGACLI_MOCK_REPLY'];
+  if (canned !== undefined) {
+    return canned;
+  }
+  const lastUser = [...(request.messages ?? [])].reverse().find((message) => message.role === 'user');
+  return textOf(lastUser?.content);
+}
+
+// Helper: Split a reply into stream chunks of a word each, keeping the whitespace
+function splitWords(text: string): string[] {
+  return text.match(/\s*\S+\s*/g) ?? (text ? [text] : []);
+}
+
+// Helper: Answer a chat completion, streaming it as server-sent events if asked
+function completeChat(request: MockRequest): FetchResponse {
+  let reply = buildReply(request);
+  let finishReason = 'stop';
+
+  // Cut the reply off at max_tokens, like a model would
+  if (request.max_tokens && estimateTokens(reply) > request.max_tokens) {
+    reply = reply.substring(0, request.max_tokens * 4);
+    finishReason = 'length';
+  }
+
+  const model = request.model ?? 'mock';
+  const promptTokens = estimateMessageTokens(
+    (request.messages ?? []).map((message) => ({ role: message.role, content: textOf(message.content) }))
+  );
+  const completionTokens = estimateTokens(reply);
+  const usage = {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+  const base = { id: 'chatcmpl-mock', created: Math.floor(Date.now() / 1000), model };
+
+  if (!request.stream) {
+    return jsonResponse(200, {
+      ...base,
+      object: 'chat.completion',
+      choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: finishReason }],
+      usage,
+    });
+  }
+
+  const chunk = (choices: unknown[], extra: object = {}) =>
+    `data: ${JSON.stringify({ ...base, object: 'chat.completion.chunk', choices, ...extra })}\n\n`;
+  const events = [
+    chunk([{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }]),
+    ...splitWords(reply).map((word) => chunk([{ index: 0, delta: { content: word }, finish_reason: null }])),
+    chunk([{ index: 0, delta: {}, finish_reason: finishReason }]),
+    ...(request.stream_options?.include_usage ? [chunk([], { usage })] : []),
+    'data: [DONE]\n\n',
+  ];
+
+  return new Response(events.join(''), {
+    status: 200,
+    headers: { 'content-type': 'text/event-stream', 'x-request-id': 'mock' },
+  }) as unknown as FetchResponse;
+}
+
+/**
+ * fetch for the OpenAI client that answers locally instead of calling MegaLLM.
+ * Chat completions echo the last user message (or reply with MEGACLI_MOCK_REPLY),
+ * with streaming and estimated token usage; the model list is the built-in registry.
+ * MEGACLI_MOCK_ERROR makes every request fail with one of MOCK_ERRORS, or with
+ * "timeout" or "connection_error".
+ */
+export const mockFetch: Fetch = async (url, init) => {
+  const failure = process.env['MEGACLI_MOCK_ERROR'];
+  if (failure) {
+    return simulateFailure(failure);
+  }
+
+  const method = init?.method ?? 'GET';
+  const { pathname } = new URL(String(url));
+
+  if (method === 'GET' && pathname.endsWith('/models')) {
+    return jsonResponse(200, {
+      object: 'list',
+      data: MEGALLM_MODELS.map((model) => ({ id: model.id, object: 'model', created: 0, owned_by: model.provider })),
+    });
+  }
+
+  if (method === 'POST' && pathname.endsWith('/chat/completions')) {
+    let request: MockRequest;
+    try {
+      request = JSON.parse(String(init?.body)) as MockRequest;
+    } catch {
+      return errorResponse({ status: 400, message: 'The request body is not valid JSON' });
+    }
+    return completeChat(request);
+  }
+
+  return errorResponse({ status: 404, message: `The mock provider does not support ${method} ${pathname}` });
+};
@@ -6,7 +6,15 @@ export interface ModelData {
   name: string;
   provider: string;
   aliases: string[];
-  // Additional metadata (will be enhanced later with pricing, context length, etc.)
+  // Context window and maximum completion size, in tokens
+  contextLength: number;
+  maxOutput: number;
+  // List price in USD per 1M tokens
+  pricing: {
+    input: number;
+    output: number;
+  };
+  // Additional metadata
   category?: 'premium' | 'balanced' | 'fast' | 'specialized';
   description?: string;
 }
@@ -18,6 +26,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'GPT-5',
     provider: 'OpenAI',
     aliases: ['gpt5', 'gpt-5'],
+    contextLength: 400000,
+    maxOutput: 128000,
+    pricing: { input: 1.25, output: 10 },
     category: 'premium',
     description: 'OpenAI\'s most advanced model for complex reasoning',
   },
@@ -26,6 +37,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'GPT-5.1',
     provider: 'OpenAI',
     aliases: ['gpt51', 'gpt-5.1'],
+    contextLength: 400000,
+    maxOutput: 128000,
+    pricing: { input: 1.25, output: 10 },
     category: 'premium',
     description: 'Enhanced version of GPT-5 with improved capabilities',
   },
@@ -34,6 +48,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Claude Opus 4.1',
     provider: 'Anthropic',
     aliases: ['claude-opus', 'opus'],
+    contextLength: 200000,
+    maxOutput: 32000,
+    pricing: { input: 15, output: 75 },
     category: 'premium',
     description: 'Anthropic\'s most capable model for complex tasks',
   },
@@ -42,6 +59,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Claude Sonnet 4.5',
     provider: 'Anthropic',
     aliases: ['claude-sonnet', 'sonnet'],
+    contextLength: 200000,
+    maxOutput: 64000,
+    pricing: { input: 3, output: 15 },
     category: 'balanced',
     description: 'Balanced performance and cost for most tasks',
   },
@@ -50,6 +70,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Claude Haiku 4.5',
     provider: 'Anthropic',
     aliases: ['claude-haiku', 'haiku'],
+    contextLength: 200000,
+    maxOutput: 64000,
+    pricing: { input: 1, output: 5 },
     category: 'fast',
     description: 'Fast and efficient for simple tasks',
   },
@@ -58,6 +81,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'OpenAI GPT-OSS 20B',
     provider: 'OpenAI',
     aliases: ['gpt-oss-20b'],
+    contextLength: 131072,
+    maxOutput: 32768,
+    pricing: { input: 0.05, output: 0.2 },
     category: 'fast',
     description: 'Open-source GPT model, 20B parameters',
   },
@@ -66,6 +92,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'OpenAI GPT-OSS 120B',
     provider: 'OpenAI',
     aliases: ['gpt-oss-120b'],
+    contextLength: 131072,
+    maxOutput: 32768,
+    pricing: { input: 0.15, output: 0.6 },
     category: 'balanced',
     description: 'Open-source GPT model, 120B parameters',
   },
@@ -74,6 +103,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'DeepSeek R1 Distill Llama 70B',
     provider: 'DeepSeek',
     aliases: ['deepseek-r1', 'r1-70b'],
+    contextLength: 131072,
+    maxOutput: 8192,
+    pricing: { input: 0.7, output: 0.8 },
     category: 'specialized',
     description: 'Distilled reasoning model based on Llama',
   },
@@ -82,6 +114,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Alibaba Qwen3 32B',
     provider: 'Alibaba',
     aliases: ['qwen3-32b', 'alibaba-qwen'],
+    contextLength: 131072,
+    maxOutput: 8192,
+    pricing: { input: 0.1, output: 0.3 },
     category: 'balanced',
     description: 'Alibaba\'s Qwen3 model, 32B parameters',
   },
@@ -90,6 +125,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Gemini 2.5 Pro',
     provider: 'Google',
     aliases: ['gemini-2-5', 'gemini25'],
+    contextLength: 1048576,
+    maxOutput: 65536,
+    pricing: { input: 1.25, output: 10 },
     category: 'premium',
     description: 'Google\'s advanced multimodal model',
   },
@@ -98,6 +136,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Llama3 8B Instruct',
     provider: 'Meta',
     aliases: ['llama3-8b', 'llama3'],
+    contextLength: 8192,
+    maxOutput: 2048,
+    pricing: { input: 0.1, output: 0.1 },
     category: 'fast',
     description: 'Meta\'s open-source Llama3 instruction-tuned model',
   },
@@ -106,6 +147,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Kimi K2 Instruct',
     provider: 'Moonshot AI',
     aliases: ['kimi-k2', 'moonshot-k2'],
+    contextLength: 262144,
+    maxOutput: 16384,
+    pricing: { input: 0.6, output: 2.5 },
     category: 'balanced',
     description: 'Moonshot\'s K2 instruction-following model',
   },
@@ -114,6 +158,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'DeepSeek V3.1 Terminus',
     provider: 'DeepSeek',
     aliases: ['deepseek-v3-1-terminus'],
+    contextLength: 131072,
+    maxOutput: 8192,
+    pricing: { input: 0.27, output: 1 },
     category: 'specialized',
     description: 'DeepSeek V3.1 specialized variant',
   },
@@ -122,6 +169,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Qwen3 Next 80B A3B Instruct',
     provider: 'Alibaba',
     aliases: ['qwen3-next-80b'],
+    contextLength: 262144,
+    maxOutput: 16384,
+    pricing: { input: 0.15, output: 1.5 },
     category: 'balanced',
     description: 'Next-gen Qwen3 with 80B parameters',
   },
@@ -130,6 +180,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'DeepSeek V3.1',
     provider: 'DeepSeek',
     aliases: ['deepseek-v3-1'],
+    contextLength: 131072,
+    maxOutput: 8192,
+    pricing: { input: 0.27, output: 1.1 },
     category: 'balanced',
     description: 'DeepSeek\'s latest V3.1 model',
   },
@@ -138,6 +191,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Mistral Nemotron',
     provider: 'Mistral AI',
     aliases: ['nemotron', 'mistral-nemotron'],
+    contextLength: 131072,
+    maxOutput: 8192,
+    pricing: { input: 0.5, output: 1.5 },
     category: 'specialized',
     description: 'Mistral\'s Nemotron specialized model',
   },
@@ -146,6 +202,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'GLM 4.6',
     provider: 'Zhipu AI',
     aliases: ['glm46'],
+    contextLength: 200000,
+    maxOutput: 128000,
+    pricing: { input: 0.6, output: 2.2 },
     category: 'balanced',
     description: 'General Language Model 4.6',
   },
@@ -154,6 +213,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Minimax M2',
     provider: 'Minimax AI',
     aliases: ['minimax-m2'],
+    contextLength: 204800,
+    maxOutput: 16384,
+    pricing: { input: 0.3, output: 1.2 },
     category: 'balanced',
     description: 'Minimax\'s M2 model',
   },
@@ -162,6 +224,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'DeepSeek V3.2',
     provider: 'DeepSeek',
     aliases: ['deepseek-v3-2'],
+    contextLength: 131072,
+    maxOutput: 8192,
+    pricing: { input: 0.28, output: 0.42 },
     category: 'balanced',
     description: 'Latest DeepSeek V3.2 release',
   },
@@ -170,6 +235,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Gemini 3 Pro Preview',
     provider: 'Google',
     aliases: ['gemini-3-pro'],
+    contextLength: 1048576,
+    maxOutput: 65536,
+    pricing: { input: 2, output: 12 },
     category: 'premium',
     description: 'Preview of Google\'s next-gen Gemini',
   },
@@ -178,6 +246,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Magnum 72B V4',
     provider: 'Magnum',
     aliases: ['magnum-72b'],
+    contextLength: 32768,
+    maxOutput: 4096,
+    pricing: { input: 3, output: 3 },
     category: 'balanced',
     description: 'Magnum 72B parameters, version 4',
   },
@@ -186,6 +257,9 @@ export const MEGALLM_MODELS: ModelData[] = [
     name: 'Kimi K2 Thinking',
     provider: 'Moonshot AI',
     aliases: ['kimi-k2-thinking'],
+    contextLength: 262144,
+    maxOutput: 16384,
+    pricing: { input: 0.6, output: 2.5 },
     category: 'specialized',
     description: 'Reasoning-optimized K2 model',
   },
@@ -270,6 +344,19 @@ export function resolveModelId(idOrAlias: string): string | undefined {
   return model?.id;
 }
 
+// Helper function to calculate the cost of a completion in USD
+export function calculateCost(
+  idOrAlias: string,
+  promptTokens: number,
+  completionTokens: number
+): number | undefined {
+  const model = modelRegistry.getModel(idOrAlias);
+  if (!model) return undefined;
+  return (
+    (promptTokens * model.pricing.input + completionTokens * model.pricing.output) / 1_000_000
+  );
+}
+
 // Helper function to get model display name
 export function getModelDisplayName(idOrAlias: string): string {
   const model = modelRegistry.getModel(idOrAlias);
@@ -0,0 +1,170 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import type { Duplex } from 'stream';
+import { configManager } from './config.js';
+
+// Where the proxy setting came from
+export type ProxySource = 'flag' | 'env' | 'config';
+
+export interface ProxyInfo {
+  url: string;
+  source: ProxySource;
+  // Environment variable the proxy was read from
+  detail?: string;
+}
+
+type ConnectCallback = (error: Error | null, socket: Duplex) => void;
+
+// Helper: Check whether NO_PROXY exempts a URL. Entries are hosts or domains
+// (".example.com" and "example.com" both match subdomains), optionally with a
+// port; "*" exempts everything.
+function bypassesProxy(url: URL): boolean {
+  const noProxy = process.env['NO_PROXY'] ?? process.env['no_proxy'] ?? '';
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .some((entry) => {
+      if (entry === '*') {
+        return true;
+      }
+      const [host = '', entryPort] = entry.split(':');
+      const domain = host.replace(/^\*?\./, '').toLowerCase();
+      return (!entryPort || entryPort === port) && (url.hostname === domain || url.hostname.endsWith(`.${domain}`));
+    });
+}
+
+/**
+ * Find the proxy for requests to a URL: the --proxy flag, then HTTPS_PROXY
+ * (HTTP_PROXY for http URLs), then the proxy setting. Hosts listed in NO_PROXY
+ * are reached directly, and so is anything that is not http(s), like the mock provider.
+ */
+export function getProxy(targetUrl: string): ProxyInfo | undefined {
+  const target = new URL(targetUrl);
+  if (!['http:', 'https:'].includes(target.protocol) || bypassesProxy(target)) {
+    return undefined;
+  }
+
+  const configured = configManager.get('proxy');
+  if (configured && configManager.getOrigin('proxy')?.source === 'flag') {
+    return { url: configured, source: 'flag' };
+  }
+
+  const names = target.protocol === 'https:' ? ['HTTPS_PROXY', 'https_proxy'] : ['HTTP_PROXY', 'http_proxy'];
+  const name = names.find((candidate) => process.env[candidate]);
+  if (name) {
+    return { url: process.env[name]!, source: 'env', detail: name };
+  }
+
+  return configured ? { url: configured, source: 'config' } : undefined;
+}
+
+// Show a proxy URL without its password
+export function describeProxy(proxyUrl: string): string {
+  try {
+    const url = new URL(proxyUrl);
+    if (url.password) {
+      url.password = '***';
+    }
+    return url.toString().replace(/\/$/, '');
+  } catch {
+    return proxyUrl;
+  }
+}
+
+// Helper: Open a tunnel to host:port through the proxy with an HTTP CONNECT request
+function openTunnel(proxy: URL, host: string, port: number, ca: tls.ConnectionOptions['ca'], callback: ConnectCallback) {
+  const auth = proxy.username
+    ? {
+        'Proxy-Authorization': `Basic ${Buffer.from(
+          `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`
+        ).toString('base64')}`,
+      }
+    : {};
+
+  const request = (proxy.protocol === 'https:' ? https : http).request({
+    host: proxy.hostname,
+    port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+    method: 'CONNECT',
+    path: `${host}:${port}`,
+    headers: { Host: `${host}:${port}`, ...auth },
+    agent: false,
+    ...(ca && { ca }),
+  });
+
+  request.once('connect', (response, socket) => {
+    if (response.statusCode !== 200) {
+      socket.destroy();
+      callback(new Error(`Proxy refused the connection: ${response.statusCode} ${response.statusMessage}`), socket);
+      return;
+    }
+    callback(null, socket);
+  });
+  request.once('error', (error) => callback(new Error(`Could not reach the proxy: ${error.message}`), request.socket!));
+  request.end();
+}
+
+// Sends plain HTTP requests through a proxy tunnel
+class HttpProxyAgent extends http.Agent {
+  constructor(private proxy: URL) {
+    super({ keepAlive: true });
+  }
+
+  override createConnection(options: http.ClientRequestArgs, callback?: ConnectCallback): undefined {
+    openTunnel(this.proxy, options.hostname ?? options.host ?? 'localhost', Number(options.port ?? 80), undefined, callback!);
+    return undefined;
+  }
+}
+
+// Sends HTTPS requests through a proxy tunnel, checking the server against the CA bundle
+class HttpsProxyAgent extends https.Agent {
+  constructor(private proxy: URL, ca: tls.ConnectionOptions['ca']) {
+    super({ keepAlive: true, ...(ca && { ca }) });
+  }
+
+  override createConnection(options: https.RequestOptions, callback?: ConnectCallback): undefined {
+    const host = options.hostname ?? options.host ?? 'localhost';
+    openTunnel(this.proxy, host, Number(options.port ?? 443), this.options.ca, (error, socket) => {
+      if (error) {
+        callback!(error, socket);
+        return;
+      }
+      callback!(null, tls.connect({ ...(options as tls.ConnectionOptions), socket, servername: host }));
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Build the connection agent for requests to a URL, applying the proxy and the
+ * caFile setting (trusted on top of the usual root certificates). Returns
+ * undefined when neither applies. Throws if the CA file or proxy URL is invalid.
+ */
+export function createAgent(targetUrl: string): http.Agent | undefined {
+  const caFile = configManager.get('caFile');
+  let ca: string[] | undefined;
+  if (caFile) {
+    try {
+      ca = [...tls.rootCertificates, fs.readFileSync(caFile, 'utf-8')];
+    } catch (error) {
+      throw new Error(`Could not read CA file ${caFile}: ${(error as Error).message}`);
+    }
+  }
+
+  const proxy = getProxy(targetUrl);
+  const secure = targetUrl.startsWith('https:');
+  if (proxy) {
+    let proxyUrl: URL;
+    try {
+      proxyUrl = new URL(proxy.url);
+    } catch {
+      throw new Error(`Invalid proxy URL: ${describeProxy(proxy.url)}`);
+    }
+    return secure ? new HttpsProxyAgent(proxyUrl, ca) : new HttpProxyAgent(proxyUrl);
+  }
+
+  return secure && ca ? new https.Agent({ keepAlive: true, ca }) : undefined;
+}
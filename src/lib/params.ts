@@ -0,0 +1,133 @@
+import type { SamplingParams } from '../types/index.js';
+
+export type ParamName =
+  | 'temperature'
+  | 'top_p'
+  | 'max_tokens'
+  | 'frequency_penalty'
+  | 'presence_penalty'
+  | 'stop'
+  | 'seed';
+
+interface ParamSpec {
+  key: keyof SamplingParams;
+  label: string;
+  // Temperature and max tokens always have a value; the rest can be unset
+  required: boolean;
+  // Parse and validate the raw values, throwing with a user-facing message
+  parse(values: string[]): number | string[];
+}
+
+// The API accepts at most this many stop sequences
+const MAX_STOP_SEQUENCES = 4;
+
+// Helper: Build a parser for a single number in a range
+function numberIn(label: string, min: number, max: number, integer = false) {
+  return (values: string[]): number => {
+    const value = Number(values[0]);
+    const kind = integer ? 'a whole number' : 'a number';
+    if (values.length !== 1 || values[0] === '' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+      throw new Error(`${label} must be ${kind}`);
+    }
+    if (value < min || value > max) {
+      throw new Error(
+        max === Infinity ? `${label} must be at least ${min}` : `${label} must be between ${min} and ${max}`
+      );
+    }
+    return value;
+  };
+}
+
+export const PARAM_SPECS: Record<ParamName, ParamSpec> = {
+  temperature: {
+    key: 'temperature',
+    label: 'Temperature',
+    required: true,
+    parse: numberIn('Temperature', 0, 2),
+  },
+  top_p: {
+    key: 'topP',
+    label: 'Top P',
+    required: false,
+    parse: numberIn('Top P', 0, 1),
+  },
+  max_tokens: {
+    key: 'maxTokens',
+    label: 'Max tokens',
+    required: true,
+    parse: numberIn('Max tokens', 1, Infinity, true),
+  },
+  frequency_penalty: {
+    key: 'frequencyPenalty',
+    label: 'Frequency penalty',
+    required: false,
+    parse: numberIn('Frequency penalty', -2, 2),
+  },
+  presence_penalty: {
+    key: 'presencePenalty',
+    label: 'Presence penalty',
+    required: false,
+    parse: numberIn('Presence penalty', -2, 2),
+  },
+  stop: {
+    key: 'stop',
+    label: 'Stop sequences',
+    required: false,
+    parse: (values: string[]): string[] => {
+      if (values.length === 0 || values.some((v) => v === '')) {
+        throw new Error('Stop sequences cannot be empty');
+      }
+      if (values.length > MAX_STOP_SEQUENCES) {
+        throw new Error(`At most ${MAX_STOP_SEQUENCES} stop sequences are allowed`);
+      }
+      return values;
+    },
+  },
+  seed: {
+    key: 'seed',
+    label: 'Seed',
+    required: false,
+    parse: numberIn('Seed', -Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER, true),
+  },
+};
+
+export const PARAM_NAMES = Object.keys(PARAM_SPECS) as ParamName[];
+
+// Accept top_p, top-p and topP alike
+export function resolveParamName(name: string): ParamName | undefined {
+  const normalized = name
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .replace(/-/g, '_')
+    .toLowerCase();
+  return PARAM_NAMES.find((param) => param === normalized);
+}
+
+// Validate parameters given as CLI flags. Throws on the first invalid one.
+export function validateParams(params: Partial<SamplingParams>): void {
+  for (const spec of Object.values(PARAM_SPECS)) {
+    const value = params[spec.key];
+    if (value !== undefined) {
+      spec.parse(Array.isArray(value) ? value : [String(value)]);
+    }
+  }
+}
+
+// Map parameters to the request body fields, leaving unset ones out
+export function toRequestParams(params: SamplingParams) {
+  return {
+    temperature: params.temperature,
+    max_tokens: params.maxTokens,
+    ...(params.topP !== undefined && { top_p: params.topP }),
+    ...(params.frequencyPenalty !== undefined && { frequency_penalty: params.frequencyPenalty }),
+    ...(params.presencePenalty !== undefined && { presence_penalty: params.presencePenalty }),
+    ...(params.stop !== undefined && { stop: params.stop }),
+    ...(params.seed !== undefined && { seed: params.seed }),
+  };
+}
+
+// Format a parameter value for display
+export function formatParamValue(value: SamplingParams[keyof SamplingParams]): string {
+  if (value === undefined) return 'default';
+  if (Array.isArray(value)) return value.map((v) => JSON.stringify(v)).join(', ');
+  return String(value);
+}
@@ -0,0 +1,5 @@
+import { NamedStore } from './store.js';
+import type { Persona } from '../types/index.js';
+
+// Personas live in a personas folder next to the conf config file
+export const personaStore = new NamedStore<Persona>('personas', 'Persona');
@@ -1,4 +1,5 @@
 import { FileSystemManager } from './filesystem.js';
+import { output } from './ui.js';
 
 export interface ProjectContext {
   type: 'typescript' | 'javascript' | 'unknown';
@@ -15,8 +16,8 @@ export interface ProjectContext {
 export class ProjectAnalyzer {
   private fs: FileSystemManager;
 
-  constructor(workingDir: string = process.cwd()) {
-    this.fs = new FileSystemManager(workingDir);
+  constructor(workingDir: string = process.cwd(), ignore: string[] = []) {
+    this.fs = new FileSystemManager(workingDir, ignore);
   }
 
   /**
@@ -164,7 +165,7 @@ export class ProjectAnalyzer {
   async getFileTree(dirPath: string = '.', depth: number = 2, currentDepth: number = 0): Promise<string> {
     if (currentDepth >= depth) return '';
 
-    const files = await this.fs.listDirectory(dirPath);
+    const files = await this.fs.listVisible(dirPath);
     const lines: string[] = [];
     const indent = '  '.repeat(currentDepth);
 
@@ -173,8 +174,11 @@ export class ProjectAnalyzer {
     const filteredFiles = files.filter(f => !ignorePatterns.includes(f.name));
 
     for (const file of filteredFiles) {
-      const icon = file.isDirectory ? '📁' : '📄';
-      lines.push(`${indent}${icon} ${file.name}`);
+      if (output.plain) {
+        lines.push(`${indent}${file.name}${file.isDirectory ? '/' : ''}`);
+      } else {
+        lines.push(`${indent}${file.isDirectory ? '📁' : '📄'} ${file.name}`);
+      }
 
       if (file.isDirectory && currentDepth < depth - 1) {
         const subTree = await this.getFileTree(file.path, depth, currentDepth + 1);
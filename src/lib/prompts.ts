@@ -0,0 +1,44 @@
+import { NamedStore } from './store.js';
+import type { PromptTemplate } from '../types/index.js';
+
+// Matches {{name}} and {{ name }}
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+// Templates live in a prompts folder next to the conf config file
+export const promptLibrary = new NamedStore<PromptTemplate>('prompts', 'Prompt');
+
+// Get the variable names used in a template, in order of first use
+export function extractVariables(template: string): string[] {
+  const names = [...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1]!);
+  return [...new Set(names)];
+}
+
+// Fill in a template's variables. Throws if any are missing.
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  const missing = extractVariables(template).filter((name) => values[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing value for ${missing.map((name) => `{{${name}}}`).join(', ')}`);
+  }
+  return template.replace(VARIABLE_PATTERN, (_, name: string) => values[name]!);
+}
+
+// Fill in a template where {{input}} takes free text (a question, or a macro's
+// arguments). Templates without {{input}} get the text appended instead.
+export function fillInput(template: string, input: string, values: Record<string, string> = {}): string {
+  const usesInput = extractVariables(template).includes('input');
+  const filled = renderTemplate(template, input && usesInput ? { input, ...values } : values);
+  return input && !usesInput ? `${filled}\n\n${input}` : filled;
+}
+
+// Parse key=value pairs from the command line or a chat command
+export function parseVars(pairs: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const pair of pairs) {
+    const index = pair.indexOf('=');
+    if (index <= 0) {
+      throw new Error(`Invalid variable "${pair}" (expected key=value)`);
+    }
+    values[pair.substring(0, index)] = pair.substring(index + 1);
+  }
+  return values;
+}
@@ -0,0 +1,273 @@
+import path from 'path';
+import { modelRegistry, resolveModelId } from './models.js';
+import { PARAM_SPECS } from './params.js';
+import type { MegaLLMConfig } from '../types/index.js';
+
+// Profiles are managed by "megacli profile", not set directly
+export type SettingKey = Exclude<keyof MegaLLMConfig, 'profiles' | 'activeProfile'>;
+
+interface SettingSpec {
+  description: string;
+  // Accepted values, shown in help and error messages
+  values: string;
+  // Turn a value typed on the command line into the stored value
+  parse(raw: string): unknown;
+  // Throw with a user-facing message if a stored value is invalid
+  check(value: unknown): void;
+  // Never shown in full
+  secret?: boolean;
+}
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  on: true,
+  yes: true,
+  false: false,
+  off: false,
+  no: false,
+};
+
+// Characters allowed in an HTTP header name
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+// Helper: A true/false setting (also takes on/off and yes/no)
+function booleanSetting(description: string): SettingSpec {
+  return {
+    description,
+    values: 'true|false',
+    parse: (raw) => BOOLEAN_VALUES[raw.toLowerCase()] ?? raw,
+    check: (value) => {
+      if (typeof value !== 'boolean') {
+        throw new Error('Must be true or false');
+      }
+    },
+  };
+}
+
+// Helper: A number checked the same way as the matching sampling parameter
+function numberSetting(description: string, values: string, param: 'temperature' | 'max_tokens'): SettingSpec {
+  return {
+    description,
+    values,
+    parse: (raw) => (raw.trim() === '' ? raw : Number(raw)),
+    check: (value) => {
+      if (typeof value !== 'number') {
+        throw new Error(`Must be a number (${values})`);
+      }
+      PARAM_SPECS[param].parse([String(value)]);
+    },
+  };
+}
+
+// Helper: Parse a JSON value, for settings that hold lists or objects
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error('Must be valid JSON');
+  }
+}
+
+// Helper: A list of strings, given as a JSON array
+function listSetting(description: string, item: string): SettingSpec {
+  return {
+    description,
+    values: `a JSON array of ${item}`,
+    parse: parseJson,
+    check: (value) => {
+      if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+        throw new Error(`Must be a JSON array of ${item}`);
+      }
+    },
+  };
+}
+
+export const SETTING_SPECS: Record<SettingKey, SettingSpec> = {
+  apiKey: {
+    description: 'MegaLLM API key (prefer "megacli auth login")',
+    values: 'sk-mega-...',
+    parse: (raw) => raw.trim(),
+    check: (value) => {
+      if (typeof value !== 'string' || !value.startsWith('sk-mega-')) {
+        throw new Error('MegaLLM keys start with "sk-mega-"');
+      }
+    },
+    secret: true,
+  },
+  apiKeyCommand: {
+    description: 'Command that prints the API key, e.g. "pass show megallm"',
+    values: 'a shell command',
+    parse: (raw) => raw.trim(),
+    check: (value) => {
+      if (typeof value !== 'string' || !value.trim()) {
+        throw new Error('Must be a command');
+      }
+    },
+  },
+  apiKeyFile: {
+    description: 'Encrypted API key file (create one with "megacli auth login --encrypt")',
+    values: 'a file path',
+    parse: (raw) => path.resolve(raw.trim()),
+    check: (value) => {
+      if (typeof value !== 'string' || !value.trim()) {
+        throw new Error('Must be a file path');
+      }
+    },
+  },
+  baseUrl: {
+    description: 'API endpoint ("mock://" answers locally, for testing)',
+    values: 'an http(s) URL or mock://',
+    // Drop trailing slashes, but keep "mock://" whole
+    parse: (raw) => raw.trim().replace(/([^/:])\/+$/, '$1'),
+    check: (value) => {
+      let url: URL | undefined;
+      try {
+        url = new URL(String(value));
+      } catch {
+        // Reported below
+      }
+      if (typeof value !== 'string' || !url || !['http:', 'https:', 'mock:'].includes(url.protocol)) {
+        throw new Error('Must be an http or https URL, or mock://');
+      }
+    },
+  },
+  proxy: {
+    description: 'Proxy for API requests (HTTPS_PROXY takes precedence)',
+    values: 'an http(s) URL',
+    parse: (raw) => raw.trim(),
+    check: (value) => {
+      let url: URL | undefined;
+      try {
+        url = new URL(String(value));
+      } catch {
+        // Reported below
+      }
+      if (typeof value !== 'string' || !url || !['http:', 'https:'].includes(url.protocol)) {
+        throw new Error('Must be an http or https URL');
+      }
+    },
+  },
+  caFile: {
+    description: 'Extra CA certificates to trust (PEM file)',
+    values: 'a file path',
+    parse: (raw) => path.resolve(raw.trim()),
+    check: (value) => {
+      if (typeof value !== 'string' || !value.trim()) {
+        throw new Error('Must be a file path');
+      }
+    },
+  },
+  timeoutMs: {
+    description: 'How long to wait for the API to start replying',
+    values: 'milliseconds, at least 1000',
+    parse: (raw) => (raw.trim() === '' ? raw : Number(raw)),
+    check: (value) => {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 1000) {
+        throw new Error('Must be a whole number of milliseconds, at least 1000');
+      }
+    },
+  },
+  headers: {
+    description: 'Extra HTTP headers for API requests',
+    values: 'a JSON object of name: value',
+    parse: parseJson,
+    check: (value) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error('Must be a JSON object mapping header names to values');
+      }
+      for (const [name, header] of Object.entries(value)) {
+        if (!HEADER_NAME.test(name) || typeof header !== 'string') {
+          throw new Error(`Invalid header: ${name}`);
+        }
+      }
+    },
+  },
+  defaultModel: {
+    description: 'Model used when -m is not given',
+    values: 'a model ID or alias',
+    // Store the full ID, so aliases keep working if they are ever reassigned
+    parse: (raw) => resolveModelId(raw.trim()) ?? raw.trim(),
+    check: (value) => {
+      if (typeof value !== 'string' || !modelRegistry.getModel(value)) {
+        throw new Error(`Unknown model: ${String(value)} (see "megacli models list")`);
+      }
+    },
+  },
+  streaming: booleanSetting('Stream replies as they are generated'),
+  temperature: numberSetting('Default temperature', '0-2', 'temperature'),
+  maxTokens: numberSetting('Default maximum tokens in a reply', 'a whole number, at least 1', 'max_tokens'),
+  systemPrompt: {
+    description: 'Default system prompt (extra instructions in code mode)',
+    values: 'any text',
+    parse: (raw) => raw,
+    check: (value) => {
+      if (typeof value !== 'string') {
+        throw new Error('Must be text');
+      }
+    },
+  },
+  theme: {
+    description: 'Color theme',
+    values: 'auto|light|dark',
+    parse: (raw) => raw.trim().toLowerCase(),
+    check: (value) => {
+      if (value !== 'auto' && value !== 'light' && value !== 'dark') {
+        throw new Error('Must be auto, light or dark');
+      }
+    },
+  },
+  saveHistory: booleanSetting('Save chat sessions to history'),
+  trustedWorkspaces: listSetting('Folders code mode may work in without asking', 'paths'),
+  ignore: listSetting('Files code mode leaves out of listings and searches', 'globs'),
+  allowedCommands: listSetting('Commands code mode may run (any if unset)', 'commands'),
+  macros: {
+    description: 'Prompt macros (custom slash commands)',
+    values: 'a JSON object of name: prompt',
+    parse: parseJson,
+    check: (value) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error('Must be a JSON object mapping names to prompts');
+      }
+      for (const [name, macro] of Object.entries(value)) {
+        const prompt = typeof macro === 'string' ? macro : (macro as { prompt?: unknown } | null)?.prompt;
+        if (typeof prompt !== 'string' || !prompt) {
+          throw new Error(`Macro ${name} needs a prompt`);
+        }
+      }
+    },
+  },
+};
+
+export const SETTING_KEYS = Object.keys(SETTING_SPECS) as SettingKey[];
+
+// Accept defaultModel, default-model and default_model alike
+export function resolveSettingKey(name: string): SettingKey | undefined {
+  const normalized = name.replace(/[-_]/g, '').toLowerCase();
+  return SETTING_KEYS.find((key) => key.toLowerCase() === normalized);
+}
+
+// Parse and check a value typed on the command line. Throws if it is invalid.
+export function parseSetting(key: SettingKey, raw: string): unknown {
+  const spec = SETTING_SPECS[key];
+  const value = spec.parse(raw);
+  spec.check(value);
+  return value;
+}
+
+// Check stored settings, e.g. after the config file was edited by hand.
+// Returns one message per invalid setting; unknown keys are ignored.
+export function validateSettings(config: Partial<MegaLLMConfig>, prefix = ''): string[] {
+  const errors: string[] = [];
+  for (const key of SETTING_KEYS) {
+    const value = config[key];
+    if (value === undefined) {
+      continue;
+    }
+    try {
+      SETTING_SPECS[key].check(value);
+    } catch (error) {
+      errors.push(`${prefix}${key}: ${(error as Error).message}`);
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,176 @@
+import { configManager } from './config.js';
+import { modelRegistry } from './models.js';
+import { isValidName } from './store.js';
+import { fillInput } from './prompts.js';
+import { colors, showError, showWarning } from './ui.js';
+import type { PromptMacro } from '../types/index.js';
+
+export interface SlashCommand {
+  name: string;
+  aliases?: string[];
+  // Arguments as shown in help: <required> or [optional]
+  args?: string;
+  description: string;
+  // Also listed in the welcome message
+  featured?: boolean;
+  // Receives everything after the command name; return true to leave the REPL
+  handler: (args: string) => Promise<boolean | void> | boolean | void;
+}
+
+// Helper: Edit distance between two strings, counting a swap of adjacent
+// characters as one edit, for "did you mean" suggestions
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(rows[i - 1]![j]! + 1, rows[i]![j - 1]! + 1, rows[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, rows[i - 2]![j - 2]! + 1);
+      }
+      rows[i]![j] = distance;
+    }
+  }
+  return rows[a.length]![b.length]!;
+}
+
+/**
+ * Slash commands for a REPL. Each command declares its name, aliases, arguments,
+ * help text and handler; help and typo suggestions are generated from them.
+ */
+export class CommandRegistry {
+  private commands: SlashCommand[] = [];
+
+  /**
+   * Add a command. Names and aliases must be unique.
+   */
+  register(command: SlashCommand): this {
+    for (const name of [command.name, ...(command.aliases ?? [])]) {
+      if (this.find(name)) {
+        throw new Error(`Slash command already registered: /${name}`);
+      }
+    }
+    this.commands.push(command);
+    return this;
+  }
+
+  /**
+   * Find a command by name or alias
+   */
+  find(name: string): SlashCommand | undefined {
+    const lower = name.toLowerCase();
+    return this.commands.find((c) => c.name === lower || c.aliases?.includes(lower));
+  }
+
+  /**
+   * Suggest the closest command name for a typo
+   */
+  suggest(name: string): string | undefined {
+    const lower = name.toLowerCase();
+    let best: { name: string; distance: number } | undefined;
+
+    for (const command of this.commands) {
+      for (const candidate of [command.name, ...(command.aliases ?? [])]) {
+        const distance = candidate.startsWith(lower) ? 0 : editDistance(lower, candidate);
+        if (!best || distance < best.distance) {
+          best = { name: command.name, distance };
+        }
+      }
+    }
+
+    // Allow roughly one typo per three characters
+    const limit = Math.max(1, Math.floor(lower.length / 3));
+    return best && best.distance <= limit ? best.name : undefined;
+  }
+
+  /**
+   * Run a slash command line. Returns true if the REPL should exit.
+   */
+  async dispatch(input: string): Promise<boolean> {
+    const match = input.trim().match(/^\/(\S*)\s*([\s\S]*)$/);
+    const name = match?.[1] ?? '';
+    const args = match?.[2]?.trim() ?? '';
+
+    const command = this.find(name);
+    if (!command) {
+      const suggestion = name ? this.suggest(name) : undefined;
+      showError(
+        `Unknown command: /${name}`,
+        suggestion ? `Did you mean /${suggestion}? Type /help for available commands` : 'Type /help for available commands'
+      );
+      return false;
+    }
+
+    if (command.args?.startsWith('<') && !args) {
+      showError(`Usage: ${this.formatUsage(command)}`, command.description);
+      return false;
+    }
+
+    return (await command.handler(args)) === true;
+  }
+
+  /**
+   * Add the prompt macros defined in config. `send` receives the expanded prompt.
+   */
+  addMacros(send: (prompt: string, macro: PromptMacro) => Promise<unknown>): this {
+    const macros = configManager.get('macros') ?? {};
+
+    for (const [name, definition] of Object.entries(macros)) {
+      let macro: PromptMacro = typeof definition === 'string' ? { prompt: definition } : definition;
+
+      if (!isValidName(name) || !macro.prompt) {
+        showWarning(`Skipping macro /${name}: it needs a simple name and a prompt`);
+        continue;
+      }
+      if (this.find(name)) {
+        showWarning(`Skipping macro /${name}: a built-in command has that name`);
+        continue;
+      }
+      if (macro.model) {
+        const model = modelRegistry.getModel(macro.model);
+        if (!model) {
+          showWarning(`Skipping macro /${name}: unknown model ${macro.model}`);
+          continue;
+        }
+        macro = { ...macro, model: model.id };
+      }
+
+      this.register({
+        name: name.toLowerCase(),
+        args: '[text]',
+        description: macro.description || `Macro: ${macro.prompt.split('\n')[0]?.substring(0, 50)}`,
+        handler: async (args) => {
+          try {
+            await send(fillInput(macro.prompt, args), macro);
+          } catch (error) {
+            showError(`Macro /${name} failed`, (error as Error).message);
+          }
+        },
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Print every command, or only the featured ones
+   */
+  showHelp(featuredOnly = false): void {
+    const shown = this.commands.filter((c) => !featuredOnly || c.featured);
+    const usages = shown.map((c) => this.formatUsage(c, true));
+    const width = Math.max(...usages.map((u) => u.length));
+
+    shown.forEach((command, index) => {
+      console.log(`  ${colors.primary(usages[index]!.padEnd(width))}  ${colors.muted(command.description)}`);
+    });
+  }
+
+  private formatUsage(command: SlashCommand, withAliases = false): string {
+    const usage = command.args ? `/${command.name} ${command.args}` : `/${command.name}`;
+    if (!withAliases || !command.aliases?.length) {
+      return usage;
+    }
+    return `${usage}, ${command.aliases.map((a) => `/${a}`).join(', ')}`;
+  }
+}
@@ -0,0 +1,273 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { configManager } from './config.js';
+import { createError, exitWithAPIError, exitWithFileError } from './errors.js';
+import { composeInEditor, confirmDeletion } from './input.js';
+import { modelRegistry } from './models.js';
+import { validateParams } from './params.js';
+import { showSuccess, printJson } from './ui.js';
+
+const NAME_PATTERN = /^[A-Za-z0-9][\w-]*$/;
+
+/**
+ * A folder of named JSON documents next to the conf config file, one file per
+ * item so they are easy to share. Used for prompt templates and personas.
+ */
+export class NamedStore<T extends { name: string }> {
+  protected dir: string;
+
+  constructor(
+    folder: string,
+    // Label used in error messages, e.g. "Prompt"
+    readonly label: string,
+    dir?: string
+  ) {
+    this.dir = dir || path.join(path.dirname(configManager.getConfigPath()), folder);
+  }
+
+  /**
+   * Save (create or overwrite) an item
+   */
+  async save(item: T): Promise<void> {
+    if (!isValidName(item.name)) {
+      throw new Error(`Invalid ${this.label.toLowerCase()} name: ${item.name} (use letters, numbers, - and _)`);
+    }
+
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.getItemPath(item.name), JSON.stringify(item, null, 2), 'utf-8');
+  }
+
+  /**
+   * Load an item by name
+   */
+  async load(name: string): Promise<T> {
+    try {
+      const content = await fs.readFile(this.getItemPath(name), 'utf-8');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' || !isValidName(name)) {
+        throw new Error(`${this.label} not found: ${name}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether an item exists
+   */
+  async exists(name: string): Promise<boolean> {
+    try {
+      await fs.access(this.getItemPath(name));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List all items, sorted by name
+   */
+  async list(): Promise<T[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const items: T[] = [];
+    for (const entry of entries.filter((f) => f.endsWith('.json'))) {
+      try {
+        const content = await fs.readFile(path.join(this.dir, entry), 'utf-8');
+        items.push(JSON.parse(content) as T);
+      } catch {
+        // Skip unreadable or corrupt files
+        continue;
+      }
+    }
+    return items.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Delete an item by name
+   */
+  async delete(name: string): Promise<void> {
+    try {
+      await fs.unlink(this.getItemPath(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`${this.label} not found: ${name}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the folder the items are stored in
+   */
+  getDir(): string {
+    return this.dir;
+  }
+
+  private getItemPath(name: string): string {
+    return path.join(this.dir, `${path.basename(name)}.json`);
+  }
+}
+
+// Helper to check a name is safe to use as a file name
+export function isValidName(name: string): boolean {
+  return NAME_PATTERN.test(name);
+}
+
+// Options "megacli prompts add" and "megacli persona add" share
+export interface AddItemOptions {
+  file?: string;
+  description?: string;
+  model?: string;
+  temperature?: number;
+  force?: boolean;
+}
+
+/**
+ * Load an item for a command, exiting with a "<label>_not_found" error (e.g.
+ * prompt_not_found) if there is none by that name
+ */
+export async function requireItem<T extends { name: string }>(
+  store: NamedStore<T>,
+  name: string,
+  json: boolean,
+  hint?: string
+): Promise<T> {
+  const kind = store.label.toLowerCase();
+  try {
+    return await store.load(name);
+  } catch (error) {
+    exitWithAPIError(createError('validation', `${kind}_not_found`, (error as Error).message, { [kind]: name }), json, hint);
+  }
+}
+
+/**
+ * Check the name, model and temperature of an item being added, exiting on the
+ * first problem. Returns the item it replaces (only allowed with --force) and
+ * the full ID of its model.
+ */
+export async function prepareItem<T extends { name: string }>(
+  store: NamedStore<T>,
+  name: string,
+  options: AddItemOptions,
+  json: boolean
+): Promise<{ existing?: T; modelId?: string }> {
+  const kind = store.label.toLowerCase();
+  if (!isValidName(name)) {
+    exitWithAPIError(
+      createError('validation', `invalid_${kind}_name`, `Invalid ${kind} name: ${name}`),
+      json,
+      'Use letters, numbers, - and _'
+    );
+  }
+
+  const existing = (await store.exists(name)) ? await requireItem(store, name, json) : undefined;
+  if (existing && !options.force) {
+    exitWithAPIError(
+      createError('validation', `${kind}_exists`, `${store.label} already exists: ${name}`, { [kind]: name }),
+      json,
+      'Use --force to replace it'
+    );
+  }
+
+  let modelId: string | undefined;
+  if (options.model) {
+    const model = modelRegistry.getModel(options.model);
+    if (!model) {
+      exitWithAPIError(
+        createError('validation', 'model_not_found', `Model not found: ${options.model}`, { model: options.model }),
+        json,
+        'Use "megacli models list" to see available models'
+      );
+    }
+    modelId = model.id;
+  }
+
+  // Validate temperature like the chat and ask flags (parseFloat turns "abc" into NaN)
+  try {
+    validateParams({ temperature: options.temperature });
+  } catch (error) {
+    exitWithAPIError(createError('validation', 'invalid_parameter', (error as Error).message), json);
+  }
+
+  return { existing, modelId };
+}
+
+/**
+ * Get an item's text (e.g. a template) from its option, --file, or the editor,
+ * trimmed. The editor is not used with --json, where no one is there to write
+ * in it. Exits if the text cannot be read or is empty.
+ */
+export async function readItemText(
+  what: string,
+  option: string,
+  source: { text?: string; file?: string; initial?: string },
+  json: boolean
+): Promise<string> {
+  let text = source.text;
+  try {
+    if (!text && source.file) {
+      text = await fs.readFile(path.resolve(source.file), 'utf-8');
+    }
+    if (!text && !json) {
+      text = await composeInEditor(source.initial ?? '');
+    }
+  } catch (error) {
+    exitWithFileError(`Could not read ${what}`, error, json);
+  }
+
+  if (!text?.trim()) {
+    exitWithAPIError(
+      createError('validation', `empty_${what.replace(/ /g, '_')}`, `Empty ${what}`),
+      json,
+      json ? `Pass ${option} "<text>" or --file <path>` : `Pass ${option} "<text>", --file <path>, or write it in the editor`
+    );
+  }
+  return text.trim();
+}
+
+/**
+ * Save an item, exiting if it cannot be written
+ */
+export async function saveItem<T extends { name: string }>(store: NamedStore<T>, item: T, json: boolean): Promise<void> {
+  try {
+    await store.save(item);
+  } catch (error) {
+    exitWithFileError(`Could not save ${store.label.toLowerCase()}`, error, json);
+  }
+}
+
+/**
+ * Delete an item once confirmed (see confirmDeletion) and report it
+ */
+export async function removeItem<T extends { name: string }>(
+  store: NamedStore<T>,
+  name: string,
+  options: { yes?: boolean; json: boolean; hint?: string }
+): Promise<void> {
+  const item = await requireItem(store, name, options.json, options.hint);
+  const what = `${store.label.toLowerCase()} ${item.name}`;
+  if (!(await confirmDeletion(what, options))) {
+    return;
+  }
+
+  try {
+    await store.delete(item.name);
+  } catch (error) {
+    exitWithFileError(`Could not delete ${what}`, error, options.json);
+  }
+
+  if (options.json) {
+    printJson({ deleted: item.name });
+    return;
+  }
+  showSuccess(`Deleted ${what}`);
+}
@@ -0,0 +1,93 @@
+// Token estimation and context-window helpers
+import { modelRegistry } from './models.js';
+
+// Roughly what chat formatting adds per message (role, separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Used for models missing from the registry
+const DEFAULT_CONTEXT_LENGTH = 32768;
+
+export interface ContextBudget {
+  contextLength: number;
+  // Tokens kept free for the model's reply
+  reservedOutput: number;
+}
+
+export interface TrimResult<T> {
+  messages: T[];
+  dropped: number;
+  tokens: number;
+}
+
+interface MessageLike {
+  role: string;
+  content?: unknown;
+}
+
+// Rough approximation used when the API does not report usage: 1 token ≈ 4 characters
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Estimate the prompt size of a list of messages
+export function estimateMessageTokens(messages: MessageLike[]): number {
+  return messages.reduce((sum, message) => {
+    const content =
+      typeof message.content === 'string' ? message.content : JSON.stringify(message.content ?? '');
+    return sum + estimateTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+  }, 0);
+}
+
+// Work out the context budget for a model and requested reply size
+export function getContextBudget(modelId: string, maxTokens: number): ContextBudget {
+  const model = modelRegistry.getModel(modelId);
+  const contextLength = model?.contextLength ?? DEFAULT_CONTEXT_LENGTH;
+  const reservedOutput = Math.min(maxTokens, model?.maxOutput ?? maxTokens);
+  return { contextLength, reservedOutput };
+}
+
+/**
+ * Drop the oldest conversation turns until the messages fit the budget.
+ * System messages and the newest message are always kept. When turns are dropped,
+ * createNote (if given) builds a marker message inserted after the system messages.
+ */
+export function fitToContext<T extends MessageLike>(
+  messages: T[],
+  budget: ContextBudget,
+  createNote?: (dropped: number) => T
+): TrimResult<T> {
+  const limit = budget.contextLength - budget.reservedOutput;
+  let tokens = estimateMessageTokens(messages);
+  if (tokens <= limit) {
+    return { messages, dropped: 0, tokens };
+  }
+
+  const kept = [...messages];
+  let dropped = 0;
+
+  const dropOldest = (): boolean => {
+    // Never drop system messages or the message being sent
+    const index = kept.findIndex((m, i) => m.role !== 'system' && i < kept.length - 1);
+    if (index === -1) return false;
+    kept.splice(index, 1);
+    dropped++;
+    return true;
+  };
+
+  while (tokens > limit && dropOldest()) {
+    tokens = estimateMessageTokens(kept);
+  }
+
+  // Don't leave the conversation starting with an assistant reply
+  while (kept.find((m) => m.role !== 'system')?.role === 'assistant' && dropOldest()) {
+    tokens = estimateMessageTokens(kept);
+  }
+
+  if (dropped > 0 && createNote) {
+    const firstConversation = kept.findIndex((m) => m.role !== 'system');
+    kept.splice(firstConversation === -1 ? kept.length : firstConversation, 0, createNote(dropped));
+    tokens = estimateMessageTokens(kept);
+  }
+
+  return { messages: kept, dropped, tokens };
+}
@@ -1,52 +1,158 @@
-import chalk from 'chalk';
+import chalk, { type ChalkInstance } from 'chalk';
 import ora, { Ora } from 'ora';
 import boxen from 'boxen';
 import gradient from 'gradient-string';
+import Table from 'cli-table3';
+import { tokenizeCode, type CodeTokenType } from './highlight.js';
+import type { MegaLLMConfig } from '../types/index.js';
 
-// Color theme
-export const colors = {
-  primary: chalk.cyan,
-  success: chalk.green,
-  error: chalk.red,
-  warning: chalk.yellow,
-  info: chalk.blue,
-  muted: chalk.gray,
-  highlight: chalk.magenta,
+type Palette = Record<'primary' | 'success' | 'error' | 'warning' | 'info' | 'muted' | 'highlight', ChalkInstance>;
+type Theme = 'light' | 'dark';
+
+interface OutputOptions {
+  // false for --no-color
+  color?: boolean;
+  plain?: boolean;
+  theme?: MegaLLMConfig['theme'];
+}
+
+// Palettes for dark and light terminal backgrounds
+const PALETTES: Record<Theme, Palette> = {
+  dark: {
+    primary: chalk.cyan,
+    success: chalk.green,
+    error: chalk.red,
+    warning: chalk.yellow,
+    info: chalk.blue,
+    muted: chalk.gray,
+    highlight: chalk.magenta,
+  },
+  light: {
+    primary: chalk.blue,
+    success: chalk.green,
+    error: chalk.red,
+    warning: chalk.magenta,
+    info: chalk.blue,
+    muted: chalk.blackBright,
+    highlight: chalk.magenta,
+  },
+};
+
+// Box borders and spinners, which take a color name rather than a chalk style
+const ACCENTS: Record<Theme, 'cyan' | 'blue'> = {
+  dark: 'cyan',
+  light: 'blue',
 };
 
-// Spinner utilities
-export function createSpinner(text: string): Ora {
+// Status symbols, and the words that replace them in plain mode
+const SYMBOLS = {
+  success: { fancy: '✓', plain: 'OK:' },
+  error: { fancy: '✗', plain: 'Error:' },
+  warning: { fancy: '⚠', plain: 'Warning:' },
+  info: { fancy: 'ℹ', plain: 'Note:' },
+  current: { fancy: '→', plain: '*' },
+  bullet: { fancy: '●', plain: '-' },
+};
+
+// Output settings, set from the global options by configureOutput()
+export const output = {
+  // ANSI colors and styles
+  color: true,
+  // No boxes, emoji, spinners, gradients or box-drawing characters
+  plain: false,
+  theme: 'dark' as Theme,
+};
+
+// Color theme (replaced in place when the theme changes, so imports stay valid)
+export const colors: Palette = { ...PALETTES.dark };
+
+// Helper: Guess the terminal background from $COLORFGBG ("15;0" is light text on black)
+function detectTheme(): Theme {
+  const background = Number(process.env['COLORFGBG']?.split(';').pop());
+  return background === 7 || background === 15 ? 'light' : 'dark';
+}
+
+/**
+ * Apply the global output options. Colors are off with --no-color, when NO_COLOR
+ * is set, or when stdout is not a terminal (FORCE_COLOR turns them back on).
+ */
+export function configureOutput(options: OutputOptions = {}): void {
+  const noColor = Boolean(process.env['NO_COLOR']) && !process.env['FORCE_COLOR'];
+  output.color = options.color !== false && !noColor && chalk.level > 0;
+  output.plain = options.plain ?? false;
+  output.theme = !options.theme || options.theme === 'auto' ? detectTheme() : options.theme;
+
+  if (!output.color) {
+    chalk.level = 0;
+  }
+  Object.assign(colors, PALETTES[output.theme]);
+}
+
+// Status symbol (✓ ✗ ⚠ ℹ → ●), or a word in plain mode
+export function symbol(name: keyof typeof SYMBOLS): string {
+  return output.plain ? SYMBOLS[name].plain : SYMBOLS[name].fancy;
+}
+
+// Prefix text with an emoji, except in plain mode
+export function withIcon(icon: string, text: string): string {
+  return output.plain ? text : `${icon} ${text}`;
+}
+
+// Spinner utilities. Spinners are static in plain mode and when stderr is not a terminal.
+export function createSpinner(text: string, options: { silent?: boolean } = {}): Ora {
   return ora({
     text,
-    color: 'cyan',
+    color: ACCENTS[output.theme],
+    isEnabled: !output.plain && Boolean(process.stderr.isTTY),
+    isSilent: options.silent ?? false,
   });
 }
 
-// Box utilities
+// Box utilities. Plain mode prints the title as a heading instead.
 export function createBox(content: string, title?: string): string {
+  if (output.plain) {
+    return title ? `\n${title}\n\n${content}\n` : `\n${content}\n`;
+  }
   return boxen(content, {
     padding: 1,
     margin: 1,
     borderStyle: 'round',
-    borderColor: 'cyan',
+    borderColor: ACCENTS[output.theme],
     title,
     titleAlignment: 'center',
   });
 }
 
+// Table without borders, for plain mode
+const PLAIN_TABLE_CHARS = {
+  top: '', 'top-mid': '', 'top-left': '', 'top-right': '',
+  bottom: '', 'bottom-mid': '', 'bottom-left': '', 'bottom-right': '',
+  left: '', 'left-mid': '', mid: '', 'mid-mid': '',
+  right: '', 'right-mid': '', middle: '  ',
+};
+
+// Table utilities. Plain mode drops the box-drawing borders and keeps the columns.
+export function createTable(options: Table.TableConstructorOptions = {}): Table.Table {
+  return new Table({
+    ...options,
+    style: { head: [], border: ['gray'], ...options.style, ...(output.plain && { 'padding-left': 0 }) },
+    ...(output.plain && { chars: PLAIN_TABLE_CHARS }),
+  });
+}
+
 // Header with gradient
 export function createHeader(text: string): string {
-  return gradient.pastel(text);
+  return output.plain || !output.color ? text : gradient.pastel(text);
 }
 
 // Success message
 export function showSuccess(message: string): void {
-  console.log(colors.success('✓'), message);
+  console.log(colors.success(symbol('success')), message);
 }
 
 // Error message
 export function showError(message: string, details?: string): void {
-  console.log(colors.error('✗'), message);
+  console.log(colors.error(symbol('error')), message);
   if (details) {
     console.log(colors.muted(details));
   }
@@ -54,12 +160,17 @@ export function showError(message: string, details?: string): void {
 
 // Warning message
 export function showWarning(message: string): void {
-  console.log(colors.warning('⚠'), message);
+  console.log(colors.warning(symbol('warning')), message);
 }
 
 // Info message
 export function showInfo(message: string): void {
-  console.log(colors.info('ℹ'), message);
+  console.log(colors.info(symbol('info')), message);
+}
+
+// Print a machine-readable document (for the global --json flag)
+export function printJson(data: unknown): void {
+  console.log(JSON.stringify(data, null, 2));
 }
 
 // Format API error
@@ -88,7 +199,207 @@ export function clearConsole(): void {
   process.stdout.write('\x1Bc');
 }
 
+// Divider line (blank in plain mode)
+export function createDivider(width: number = 50): string {
+  return output.plain ? '' : colors.muted('─'.repeat(width));
+}
+
 // Divider
 export function showDivider(): void {
-  console.log(colors.muted('─'.repeat(50)));
+  console.log(createDivider());
+}
+
+// Syntax colors for highlighted code
+const codeColors: Record<CodeTokenType, (text: string) => string> = {
+  keyword: chalk.magenta,
+  string: chalk.green,
+  comment: chalk.gray.italic,
+  number: chalk.yellow,
+  plain: (text) => text,
+};
+
+// Highlight a block of code for the terminal
+export function highlightCode(code: string, language?: string): string {
+  return tokenizeCode(code, language)
+    .map((token) => codeColors[token.type](token.text))
+    .join('');
+}
+
+// Format inline Markdown: code spans, bold, italic, strikethrough and links
+function renderInline(text: string): string {
+  // Pull code spans and links out first so their contents are left untouched
+  const protectedSpans: string[] = [];
+  const protect = (formatted: string) => {
+    protectedSpans.push(formatted);
+    return `\uE000${protectedSpans.length - 1}\uE000`;
+  };
+
+  const result = text
+    .replace(/`([^`]+)`/g, (_match, code: string) => protect(chalk.yellow(code)))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_match, label: string, url: string) =>
+      protect(`${chalk.underline(label)} ${colors.muted(`(${url})`)}`)
+    )
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_match, a?: string, b?: string) => chalk.bold(a ?? b ?? ''))
+    .replace(/(^|[^*\w])\*([^*\s][^*]*)\*(?!\*)/g, (_match, pre: string, body: string) => pre + chalk.italic(body))
+    .replace(/(^|[^_\w])_([^_\s][^_]*)_(?!\w)/g, (_match, pre: string, body: string) => pre + chalk.italic(body))
+    .replace(/~~([^~]+)~~/g, (_match, body: string) => chalk.strikethrough(body));
+
+  return result.replace(/\uE000(\d+)\uE000/g, (_match, index: string) => protectedSpans[Number(index)] ?? '');
+}
+
+function parseTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, '')
+    .split('|')
+    .map((cell) => cell.trim());
+}
+
+function renderTable(lines: string[]): string {
+  const rows = lines
+    .filter((line) => !/^\s*\|?\s*:?-{2,}/.test(line))
+    .map(parseTableRow);
+  const [head, ...body] = rows;
+
+  const table = createTable({
+    head: (head ?? []).map((cell) => chalk.bold(renderInline(cell))),
+  });
+  body.forEach((row) => table.push(row.map(renderInline)));
+  return table.toString();
+}
+
+/**
+ * Line-by-line Markdown renderer for the terminal.
+ *
+ * Text can be fed in arbitrary chunks (e.g. from a streaming reply); each line is
+ * rendered as soon as it is complete. Tables are held back until the last row
+ * arrives so their columns can be aligned.
+ */
+export class MarkdownStream {
+  private buffer = '';
+  private codeLanguage: string | null = null;
+  private tableLines: string[] = [];
+  private output: (text: string) => void;
+
+  constructor(output: (text: string) => void = (text) => process.stdout.write(text)) {
+    this.output = output;
+  }
+
+  // Feed a chunk of Markdown
+  write(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 1);
+      this.renderLine(line);
+      newline = this.buffer.indexOf('\n');
+    }
+  }
+
+  // Flush whatever is left once the text is complete
+  end(): void {
+    if (this.buffer) {
+      this.renderLine(this.buffer);
+      this.buffer = '';
+    }
+    this.flushTable();
+  }
+
+  private renderLine(line: string): void {
+    // Plain mode passes the Markdown through untouched
+    if (output.plain) {
+      this.output(line + '\n');
+      return;
+    }
+
+    // Fenced code blocks
+    const fence = line.match(/^\s*(```|~~~)\s*([\w+#.-]*)/);
+    if (fence) {
+      this.flushTable();
+      if (this.codeLanguage === null) {
+        this.codeLanguage = fence[2] ?? '';
+        this.output(colors.muted(`┌─ ${this.codeLanguage || 'code'}`) + '\n');
+      } else {
+        this.codeLanguage = null;
+        this.output(colors.muted('└─') + '\n');
+      }
+      return;
+    }
+
+    if (this.codeLanguage !== null) {
+      this.output(colors.muted('│ ') + highlightCode(line, this.codeLanguage) + '\n');
+      return;
+    }
+
+    // Tables are buffered until a non-table line shows up
+    if (/^\s*\|/.test(line)) {
+      this.tableLines.push(line);
+      return;
+    }
+    this.flushTable();
+
+    this.output(this.renderBlock(line) + '\n');
+  }
+
+  private renderBlock(line: string): string {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const text = renderInline(heading[2] ?? '');
+      return heading[1] === '#' ? colors.primary.bold.underline(text) : colors.primary.bold(text);
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      return colors.muted('─'.repeat(50));
+    }
+
+    const quote = line.match(/^\s*>\s?(.*)$/);
+    if (quote) {
+      return colors.muted('│ ') + chalk.italic(renderInline(quote[1] ?? ''));
+    }
+
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    if (bullet) {
+      const task = (bullet[2] ?? '').match(/^\[([ xX])\]\s+(.*)$/);
+      const marker = task ? (task[1] === ' ' ? '☐' : colors.success('☑')) : colors.primary('•');
+      return `${bullet[1]}${marker} ${renderInline(task ? task[2] ?? '' : bullet[2] ?? '')}`;
+    }
+
+    const numbered = line.match(/^(\s*)(\d+[.)])\s+(.*)$/);
+    if (numbered) {
+      return `${numbered[1]}${colors.primary(numbered[2] ?? '')} ${renderInline(numbered[3] ?? '')}`;
+    }
+
+    return renderInline(line);
+  }
+
+  private flushTable(): void {
+    if (this.tableLines.length === 0) return;
+    this.output(renderTable(this.tableLines) + '\n');
+    this.tableLines = [];
+  }
+}
+
+// Render a complete Markdown document for the terminal
+export function renderMarkdown(markdown: string): string {
+  let rendered = '';
+  const stream = new MarkdownStream((text) => {
+    rendered += text;
+  });
+  stream.write(markdown);
+  stream.end();
+  return rendered.replace(/\n$/, '');
+}
+
+// Usage meter, e.g. "[██████░░░░░░░░░░░░░░] 31%", colored by how full it is
+export function createMeter(current: number, total: number, width: number = 20): string {
+  const ratio = total > 0 ? Math.min(current / total, 1) : 0;
+  if (output.plain) {
+    return `${Math.round(ratio * 100)}%`;
+  }
+  const filled = Math.round(ratio * width);
+  const bar = '█'.repeat(filled) + '░'.repeat(width - filled);
+  const color = ratio >= 0.9 ? colors.error : ratio >= 0.7 ? colors.warning : colors.success;
+  return `[${color(bar)}] ${Math.round(ratio * 100)}%`;
 }
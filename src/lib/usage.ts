@@ -0,0 +1,116 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { configManager } from './config.js';
+import { calculateCost } from './models.js';
+import type { UsageRecord } from '../types/index.js';
+
+export interface CompletionUsage {
+  command: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean;
+}
+
+export class UsageLedger {
+  private ledgerPath: string;
+
+  constructor(ledgerPath?: string) {
+    // The ledger lives next to the conf config file, one JSON record per line
+    this.ledgerPath =
+      ledgerPath || path.join(path.dirname(configManager.getConfigPath()), 'usage.jsonl');
+  }
+
+  /**
+   * Append a completion to the ledger. Returns the stored record. Offline replies
+   * (the mock provider or --replay) cost nothing and are not stored.
+   */
+  async record(usage: CompletionUsage): Promise<UsageRecord> {
+    const offline = configManager.isOffline();
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      command: usage.command,
+      model: usage.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.promptTokens + usage.completionTokens,
+      cost: offline ? 0 : calculateCost(usage.model, usage.promptTokens, usage.completionTokens) ?? 0,
+      ...(usage.estimated && { estimated: true }),
+    };
+    if (offline) {
+      return record;
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.ledgerPath), { recursive: true });
+      await fs.appendFile(this.ledgerPath, JSON.stringify(record) + '\n', 'utf-8');
+    } catch {
+      // Usage tracking must never break a request
+    }
+
+    return record;
+  }
+
+  /**
+   * Read ledger records, optionally only those at or after a date
+   */
+  async read(since?: Date): Promise<UsageRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.ledgerPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as UsageRecord);
+      } catch {
+        // Skip partially written lines
+        continue;
+      }
+    }
+
+    return since ? records.filter((r) => new Date(r.timestamp) >= since) : records;
+  }
+
+  /**
+   * Get the ledger file path
+   */
+  getLedgerPath(): string {
+    return this.ledgerPath;
+  }
+}
+
+// Export singleton instance
+export const usageLedger = new UsageLedger();
+
+// Format a USD amount, keeping precision for tiny per-request costs
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+// Parse a relative duration ("7d", "24h", "30m", "2w") or a date into a start time
+export function parseSince(value: string, now: Date = new Date()): Date | undefined {
+  const match = value.trim().match(/^(\d+)\s*([mhdw])$/i);
+  if (match) {
+    const amount = Number(match[1]);
+    const unitMs: Record<string, number> = {
+      m: 60_000,
+      h: 3_600_000,
+      d: 86_400_000,
+      w: 604_800_000,
+    };
+    return new Date(now.getTime() - amount * (unitMs[match[2]!.toLowerCase()] ?? 0));
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
@@ -1,20 +1,174 @@
 // Type definitions for MegaCLI
 
+import type { ClientOptions } from 'openai';
+
 export interface MegaLLMConfig {
   apiKey: string;
+  // Command that prints the API key (a credential helper, e.g. "pass show megallm")
+  apiKeyCommand?: string;
+  // Passphrase-encrypted file holding the API key
+  apiKeyFile?: string;
   baseUrl?: string;
+  // HTTP(S) proxy for API requests (HTTPS_PROXY / HTTP_PROXY take precedence)
+  proxy?: string;
+  // PEM file of extra certificate authorities to trust, e.g. a corporate CA
+  caFile?: string;
+  // How long to wait for the API to start replying, in milliseconds
+  timeoutMs?: number;
+  // Extra HTTP headers sent with every API request
+  headers?: Record<string, string>;
   defaultModel?: string;
   streaming?: boolean;
   temperature?: number;
   maxTokens?: number;
+  // Default system prompt for chat and ask, and extra instructions for code mode
+  systemPrompt?: string;
   theme?: 'auto' | 'light' | 'dark';
   saveHistory?: boolean;
   trustedWorkspaces?: string[];
+  // Globs of files code mode leaves out of listings and searches
+  ignore?: string[];
+  // Commands code mode may run (each with any arguments); unset allows all
+  allowedCommands?: string[];
+  // User-defined slash commands, by name
+  macros?: Record<string, string | PromptMacro>;
+  // Named sets of connection settings and defaults, e.g. a team key or a staging gateway
+  profiles?: Record<string, ProfileSettings>;
+  // Profile used when neither --profile nor MEGACLI_PROFILE is given
+  activeProfile?: string;
+}
+
+// Settings a profile can override; anything it leaves out comes from the main config
+export type ProfileSettings = Partial<
+  Pick<
+    MegaLLMConfig,
+    'apiKey' | 'apiKeyCommand' | 'apiKeyFile' | 'baseUrl' | 'defaultModel' | 'streaming' | 'temperature' | 'maxTokens'
+  >
+>;
+
+// Settings a project config file (.megacli.json) can set. Keys, credential
+// helpers, the base URL and workspace trust never come from a project.
+export type ProjectSettings = Partial<
+  Pick<
+    MegaLLMConfig,
+    'defaultModel' | 'streaming' | 'temperature' | 'maxTokens' | 'systemPrompt' | 'ignore' | 'allowedCommands' | 'macros'
+  >
+>;
+
+// A user-defined slash command that sends a prompt. {{input}} is replaced by
+// whatever follows the command; without it, that text is appended.
+export interface PromptMacro {
+  prompt: string;
+  description?: string;
+  model?: string;
 }
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
+  // ISO 8601 time the message was added
+  timestamp?: string;
+  // Set when the reply was cut short (e.g. cancelled with Ctrl+C)
+  truncated?: boolean;
+  // Model that wrote an assistant reply
+  model?: string;
+  // Paths of files attached to a user message
+  attachments?: string[];
+}
+
+// One message in a conversation tree
+export interface ConversationNode {
+  id: number;
+  // Node this message follows, or null for the first message
+  parent: number | null;
+  message: ChatMessage;
+}
+
+// Every branch of a conversation; the active branch ends at head
+export interface ConversationTreeData {
+  nodes: ConversationNode[];
+  head: number | null;
+}
+
+export interface TokenUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+  // Estimated cost in USD
+  cost?: number;
+}
+
+// One completion in the local usage ledger
+export interface UsageRecord {
+  timestamp: string;
+  command: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Estimated cost in USD
+  cost: number;
+  // True when token counts were estimated rather than reported by the API
+  estimated?: boolean;
+}
+
+// A chat conversation as stored on disk
+export interface ChatSessionRecord {
+  id: string;
+  title: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  // Messages on the active branch
+  messages: ChatMessage[];
+  // All branches, including the active one (absent in older sessions)
+  tree?: ConversationTreeData;
+  // Persona the session was using, if any
+  persona?: string;
+  // Extra sampling parameters set with flags or /set
+  sampling?: SamplingOptions;
+  tokenUsage: TokenUsage;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Optional sampling parameters beyond temperature and max tokens
+export interface SamplingOptions {
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stop?: string[];
+  seed?: number;
+}
+
+// Every sampling parameter sent with a chat request
+export interface SamplingParams extends SamplingOptions {
+  temperature: number;
+  maxTokens: number;
+}
+
+// A reusable prompt with {{variable}} placeholders
+export interface PromptTemplate {
+  name: string;
+  template: string;
+  description?: string;
+  // Defaults used when the template is run
+  model?: string;
+  temperature?: number;
+  system?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A named system prompt with optional model and temperature defaults
+export interface Persona {
+  name: string;
+  system: string;
+  description?: string;
+  model?: string;
+  temperature?: number;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface ChatCompletionOptions {
@@ -49,6 +203,9 @@ export interface APIError {
   details?: Record<string, unknown>;
 }
 
+// The fetch function the OpenAI client sends its requests with
+export type Fetch = NonNullable<ClientOptions['fetch']>;
+
 export interface ChatResponse {
   id: string;
   model: string;
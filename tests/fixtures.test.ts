@@ -0,0 +1,158 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import OpenAI from 'openai';
+import type { Fetch } from '../src/types/index.js';
+import { fixtures, fixtureName, type Fixture } from '../src/lib/fixtures.js';
+import { mockFetch, MOCK_API_URL } from '../src/lib/mock.js';
+import { toAPIError } from '../src/lib/errors.js';
+
+let dir: string;
+
+// A client whose requests go through the fixture store, then the mock provider
+function createClient(transport: Fetch = mockFetch): OpenAI {
+  return new OpenAI({
+    apiKey: 'sk-mega-secret-key-1234',
+    baseURL: MOCK_API_URL,
+    fetch: fixtures.wrap(transport),
+    maxRetries: 0,
+  });
+}
+
+// Helper: The fixture files written so far
+function readFixtures(): Fixture[] {
+  return fs
+    .readdirSync(dir)
+    .map((name) => JSON.parse(fs.readFileSync(path.join(dir, name), 'utf-8')) as Fixture);
+}
+
+const question = { model: 'gpt-5', messages: [{ role: 'user' as const, content: 'Recorded question' }] };
+
+// Fails the test if a replayed request reaches the network
+const offline: Fetch = async () => {
+  throw new Error('Replay must not send requests');
+};
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'megacli-fixtures-'));
+});
+
+afterEach(() => {
+  fixtures.configure({});
+  delete process.env['MEGACLI_MOCK_ERROR'];
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('fixtureName', () => {
+  it('names the file after the endpoint and a hash of the request', () => {
+    const name = fixtureName('POST', 'https://ai.megallm.io/v1/chat/completions', '{"model":"gpt-5"}');
+
+    expect(name).toMatch(/^chat-completions-[0-9a-f]{16}\.json$/);
+    expect(fixtureName('POST', 'https://ai.megallm.io/v1/chat/completions', '{"model":"gpt-5"}')).toBe(name);
+  });
+
+  it('gives different requests different files', () => {
+    const url = 'https://ai.megallm.io/v1/chat/completions';
+
+    expect(fixtureName('POST', url, '{"model":"gpt-5"}')).not.toBe(fixtureName('POST', url, '{"model":"opus"}'));
+    expect(fixtureName('GET', 'https://ai.megallm.io/v1/models', undefined)).toMatch(/^models-/);
+  });
+
+  it('ignores the host, so the real API and the mock provider share fixtures', () => {
+    expect(fixtureName('GET', `${MOCK_API_URL}/models`, undefined)).toBe(
+      fixtureName('GET', 'https://ai.megallm.io/v1/models', undefined)
+    );
+  });
+});
+
+describe('fixtures.configure', () => {
+  it('refuses --record and --replay together', () => {
+    expect(() => fixtures.configure({ record: dir, replay: dir })).toThrow('not both');
+  });
+
+  it('refuses to replay from a missing folder', () => {
+    expect(() => fixtures.configure({ replay: path.join(dir, 'missing') })).toThrow('Fixture folder not found');
+  });
+
+  it('creates the folder to record in', () => {
+    const target = path.join(dir, 'new', 'fixtures');
+    fixtures.configure({ record: target });
+
+    expect(fs.existsSync(target)).toBe(true);
+    expect(fixtures.currentMode).toBe('record');
+    expect(fixtures.directory).toBe(target);
+  });
+
+  it('passes requests straight through without either option', () => {
+    fixtures.configure({});
+
+    expect(fixtures.wrap(mockFetch)).toBe(mockFetch);
+    expect(fixtures.replaying).toBe(false);
+  });
+});
+
+describe('record and replay', () => {
+  it('replays a recorded completion without sending anything', async () => {
+    fixtures.configure({ record: dir });
+    const recorded = await createClient().chat.completions.create(question);
+
+    fixtures.configure({ replay: dir });
+    const replayed = await createClient(offline).chat.completions.create(question);
+
+    expect(replayed.choices[0]?.message.content).toBe('Recorded question');
+    expect(replayed).toEqual(recorded);
+  });
+
+  it('saves the request and response, but never the API key', async () => {
+    fixtures.configure({ record: dir });
+    await createClient().chat.completions.create(question);
+
+    const [fixture] = readFixtures();
+    expect(fixture?.request).toEqual({ method: 'POST', path: '/v1/chat/completions', body: question });
+    expect(fixture?.response.status).toBe(200);
+    expect(fixture?.response.headers['content-type']).toBe('application/json');
+    expect(fs.readFileSync(path.join(dir, fs.readdirSync(dir)[0]!), 'utf-8')).not.toContain('sk-mega');
+  });
+
+  it('records a stream as it passes through, and replays it', async () => {
+    fixtures.configure({ record: dir });
+    const chunks: string[] = [];
+    for await (const chunk of await createClient().chat.completions.create({ ...question, stream: true })) {
+      chunks.push(chunk.choices[0]?.delta.content ?? '');
+    }
+    expect(readFixtures()).toHaveLength(1);
+
+    fixtures.configure({ replay: dir });
+    const replayed: string[] = [];
+    for await (const chunk of await createClient(offline).chat.completions.create({ ...question, stream: true })) {
+      replayed.push(chunk.choices[0]?.delta.content ?? '');
+    }
+
+    expect(replayed.join('')).toBe('Recorded question');
+    expect(replayed).toEqual(chunks);
+  });
+
+  it('replays recorded failures', async () => {
+    process.env['MEGACLI_MOCK_ERROR'] = 'insufficient_quota';
+    fixtures.configure({ record: dir });
+    await expect(createClient().chat.completions.create(question)).rejects.toThrow();
+
+    delete process.env['MEGACLI_MOCK_ERROR'];
+    fixtures.configure({ replay: dir });
+    const error = await createClient(offline)
+      .chat.completions.create(question)
+      .catch((failure: unknown) => toAPIError(failure));
+
+    expect(error).toMatchObject({ type: 'rate_limit', code: 'insufficient_quota' });
+  });
+
+  it('reports a request that was never recorded', async () => {
+    fixtures.configure({ replay: dir });
+    const error = await createClient(offline)
+      .chat.completions.create(question)
+      .catch((failure: unknown) => toAPIError(failure));
+
+    expect(error).toMatchObject({ type: 'validation', code: 'fixture_not_found' });
+    expect((error as { message: string }).message).toContain(dir);
+  });
+});
@@ -0,0 +1,172 @@
+import OpenAI from 'openai';
+import { mockFetch, isMockUrl, MOCK_API_URL, MOCK_ERRORS } from '../src/lib/mock.js';
+import { toAPIError } from '../src/lib/errors.js';
+import { MEGALLM_MODELS } from '../src/lib/models.js';
+
+// A client that sends everything to the mock provider, failing on the first error
+function createMockClient(): OpenAI {
+  return new OpenAI({ apiKey: 'sk-mega-test', baseURL: MOCK_API_URL, fetch: mockFetch, maxRetries: 0 });
+}
+
+// Helper: The error a request fails with, mapped the way commands report it
+async function failureOf(request: Promise<unknown>) {
+  try {
+    await request;
+  } catch (error) {
+    return toAPIError(error);
+  }
+  throw new Error('Expected the request to fail');
+}
+
+const question = { model: 'gpt-5', messages: [{ role: 'user' as const, content: 'What is 2 + 2?' }] };
+
+afterEach(() => {
+  delete process.env['MEGACLI_MOCK_REPLY'];
+  delete process.env['MEGACLI_MOCK_ERROR'];
+});
+
+describe('isMockUrl', () => {
+  it('recognizes mock:// URLs only', () => {
+    expect(isMockUrl('mock://')).toBe(true);
+    expect(isMockUrl('mock://anything/v1')).toBe(true);
+    expect(isMockUrl('https://ai.megallm.io/v1')).toBe(false);
+    expect(isMockUrl(undefined)).toBe(false);
+  });
+});
+
+describe('mock chat completions', () => {
+  it('echoes the last user message, with usage', async () => {
+    const response = await createMockClient().chat.completions.create({
+      model: 'gpt-5',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'first' },
+        { role: 'assistant', content: 'ok' },
+        { role: 'user', content: 'second' },
+      ],
+    });
+
+    expect(response.model).toBe('gpt-5');
+    expect(response.choices[0]?.message.content).toBe('second');
+    expect(response.choices[0]?.finish_reason).toBe('stop');
+    expect(response.usage?.completion_tokens).toBe(2);
+    expect(response.usage?.total_tokens).toBe(response.usage!.prompt_tokens + response.usage!.completion_tokens);
+  });
+
+  it('echoes the text parts of a multimodal message', async () => {
+    const response = await createMockClient().chat.completions.create({
+      model: 'gpt-5',
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe this' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+          ],
+        },
+      ],
+    });
+
+    expect(response.choices[0]?.message.content).toBe('Describe this');
+  });
+
+  it('sends MEGACLI_MOCK_REPLY instead when it is set', async () => {
+    process.env['MEGACLI_MOCK_REPLY'] = 'Four.';
+    const response = await createMockClient().chat.completions.create(question);
+
+    expect(response.choices[0]?.message.content).toBe('Four.');
+  });
+
+  it('cuts the reply off at max_tokens', async () => {
+    process.env['MEGACLI_MOCK_REPLY'] = 'a'.repeat(100);
+    const response = await createMockClient().chat.completions.create({ ...question, max_tokens: 5 });
+
+    expect(response.choices[0]?.message.content).toBe('a'.repeat(20));
+    expect(response.choices[0]?.finish_reason).toBe('length');
+  });
+
+  it('streams the reply word by word', async () => {
+    process.env['MEGACLI_MOCK_REPLY'] = 'The answer is 4';
+    const stream = await createMockClient().chat.completions.create({ ...question, stream: true });
+
+    const deltas: string[] = [];
+    let finishReason: string | null | undefined;
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta.content;
+      if (content) {
+        deltas.push(content);
+      }
+      finishReason = chunk.choices[0]?.finish_reason ?? finishReason;
+      expect(chunk.usage).toBeFalsy();
+    }
+
+    expect(deltas).toEqual(['The ', 'answer ', 'is ', '4']);
+    expect(finishReason).toBe('stop');
+  });
+
+  it('ends a stream with usage when include_usage is asked for', async () => {
+    const stream = await createMockClient().chat.completions.create({
+      ...question,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let usage: OpenAI.CompletionUsage | undefined;
+    for await (const chunk of stream) {
+      usage = chunk.usage ?? usage;
+    }
+
+    expect(usage?.completion_tokens).toBe(4);
+    expect(usage?.prompt_tokens).toBeGreaterThan(0);
+  });
+});
+
+describe('mock models', () => {
+  it('lists the built-in models', async () => {
+    const models = [];
+    for await (const model of createMockClient().models.list()) {
+      models.push(model.id);
+    }
+
+    expect(models).toEqual(MEGALLM_MODELS.map((model) => model.id));
+  });
+});
+
+describe('MEGACLI_MOCK_ERROR', () => {
+  it.each(Object.keys(MOCK_ERRORS))('fails with %s', async (name) => {
+    process.env['MEGACLI_MOCK_ERROR'] = name;
+    const error = await failureOf(createMockClient().chat.completions.create(question));
+
+    expect(error.code).toBe(name);
+  });
+
+  it('fails auth checks too', async () => {
+    process.env['MEGACLI_MOCK_ERROR'] = 'invalid_api_key';
+    const error = await failureOf(createMockClient().models.list());
+
+    expect(error).toMatchObject({ type: 'authentication', code: 'invalid_api_key' });
+  });
+
+  it('reports the wait for a rate limit', async () => {
+    process.env['MEGACLI_MOCK_ERROR'] = 'rate_limited';
+    const error = await failureOf(createMockClient().chat.completions.create(question));
+
+    expect(error.details?.['retryAfter']).toBe(1);
+  });
+
+  it.each(['timeout', 'connection_error'])('fails with %s before a response', async (name) => {
+    process.env['MEGACLI_MOCK_ERROR'] = name;
+    const error = await failureOf(createMockClient().chat.completions.create(question));
+
+    expect(error).toMatchObject({ type: 'server', code: name });
+  });
+
+  it('rejects unknown failures, listing the known ones', async () => {
+    process.env['MEGACLI_MOCK_ERROR'] = 'teapot';
+    const error = await failureOf(createMockClient().chat.completions.create(question));
+
+    expect(error.code).toBe('bad_request');
+    expect(error.message).toContain('Unknown MEGACLI_MOCK_ERROR: teapot');
+    expect(error.message).toContain('connection_error');
+  });
+});
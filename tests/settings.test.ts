@@ -0,0 +1,40 @@
+import { parseSetting, resolveSettingKey, validateSettings } from '../src/lib/settings.js';
+
+describe('parseSetting', () => {
+  it('accepts http(s) and mock:// base URLs', () => {
+    expect(parseSetting('baseUrl', 'https://ai.megallm.io/v1/')).toBe('https://ai.megallm.io/v1');
+    expect(parseSetting('baseUrl', 'mock://')).toBe('mock://');
+    expect(() => parseSetting('baseUrl', 'ftp://example.com')).toThrow('mock://');
+  });
+
+  it('stores model aliases as full IDs', () => {
+    expect(parseSetting('defaultModel', 'opus')).toBe('claude-opus-4-1-20250805');
+    expect(() => parseSetting('defaultModel', 'no-such-model')).toThrow('Unknown model');
+  });
+
+  it('parses booleans, numbers and JSON values', () => {
+    expect(parseSetting('streaming', 'off')).toBe(false);
+    expect(parseSetting('temperature', '0.2')).toBe(0.2);
+    expect(parseSetting('headers', '{"X-Team": "core"}')).toEqual({ 'X-Team': 'core' });
+    expect(() => parseSetting('timeoutMs', '5')).toThrow('at least 1000');
+    expect(() => parseSetting('ignore', '"*.log"')).toThrow('JSON array');
+  });
+});
+
+describe('resolveSettingKey', () => {
+  it('accepts camelCase, kebab-case and snake_case', () => {
+    expect(resolveSettingKey('defaultModel')).toBe('defaultModel');
+    expect(resolveSettingKey('default-model')).toBe('defaultModel');
+    expect(resolveSettingKey('max_tokens')).toBe('maxTokens');
+    expect(resolveSettingKey('nope')).toBeUndefined();
+  });
+});
+
+describe('validateSettings', () => {
+  it('reports each invalid setting, with a prefix', () => {
+    expect(validateSettings({ temperature: 5, streaming: true, theme: 'neon' as never }, 'profiles.work.')).toEqual([
+      expect.stringMatching(/^profiles\.work\.temperature: /),
+      'profiles.work.theme: Must be auto, light or dark',
+    ]);
+  });
+});